@@ -0,0 +1,19 @@
+"""
+Writes the API's OpenAPI document to the frontend, where the TypeScript
+client types are generated from it:
+
+    python backend/export_openapi.py
+    cd frontend && npm run generate:api
+"""
+import json
+import os
+
+from main import app
+
+OUTPUT_PATH = os.path.join(os.path.dirname(__file__), "..", "frontend", "src", "api", "openapi.json")
+
+if __name__ == "__main__":
+    with open(OUTPUT_PATH, "w") as f:
+        json.dump(app.openapi(), f, indent=2)
+        f.write("\n")
+    print(f"Wrote {os.path.normpath(OUTPUT_PATH)}")
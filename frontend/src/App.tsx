@@ -1,4 +1,10 @@
-import React, { useState, useEffect } from "react";
+import React, {
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  useMemo,
+} from "react";
 import {
   Box,
   Button,
@@ -33,6 +39,21 @@ import {
   Checkbox,
   CssBaseline,
   Alert,
+  FormHelperText,
+  Autocomplete,
+  Switch,
+  TablePagination,
+  TableSortLabel,
+  RadioGroup,
+  Radio,
+  Stepper,
+  Step,
+  StepLabel,
+  LinearProgress,
+  Menu,
+  ListSubheader,
+  Tabs,
+  Tab,
 } from "@mui/material";
 import {
   Storage as StorageIcon,
@@ -46,16 +67,73 @@ import {
   MergeType as MergeTypeIcon,
   Refresh as RefreshIcon,
   Edit as EditIcon,
+  MoreVert as MoreVertIcon,
   ArrowForward as ArrowRightIcon,
   DataObject as JsonIcon,
   CalendarToday as DateIcon,
   Numbers as NumberIcon,
   ToggleOn as BoolIcon,
   TextFields as TextIcon,
+  Fingerprint as UniqueIcon,
+  Rule as CheckIcon,
+  OpenInNew as OpenInNewIcon,
+  AccountTree as SchemaIcon,
+  Terminal as TerminalIcon,
+  PlayArrow as PlayArrowIcon,
+  ContentCopy as CopyIcon,
+  Download as DownloadIcon,
+  Save as SaveIcon,
+  Undo as UndoIcon,
+  FileUpload as UploadIcon,
+  History as HistoryIcon,
+  Schedule as TimeIcon,
+  Tag as UuidIcon,
+  FormatListBulleted as EnumIcon,
+  Category as DomainIcon,
+  Speed as IndexIcon,
 } from "@mui/icons-material";
 
-import { useApi } from "./hooks/useApi";
-import type { TableResponse, ColumnDef } from "./hooks/useApi";
+import { useApi, ApiError, isAbortError, errorMessage } from "./hooks/useApi";
+import { useTableCache } from "./hooks/useTableCache";
+import type { Invalidation } from "./hooks/useTableCache";
+import type {
+  TableResponse,
+  TableSchema,
+  ColumnDef,
+  TableQuery,
+  SortDirection,
+  RowReference,
+  LookupOption,
+  JoinStep,
+  JoinKeyPair,
+  JoinType,
+  Aggregate,
+  Operator,
+  ColumnRef,
+  Condition,
+  ConditionGroup,
+  QueryRequest,
+  SqlMode,
+  SqlExecuteResponse,
+  ExecutedStatement,
+  ImportResponse,
+  ImportProgress,
+  ExportFormat,
+  SchemaDocument,
+  SchemaImportRequest,
+  SchemaImportResponse,
+  AlterAction,
+  AlterTableRequest,
+  AlterTableResponse,
+  MigrationHistory,
+  IndexInfo,
+  CreateIndexRequest,
+  IndexMethod,
+  TypeCatalog,
+  CreateTypeRequest,
+  AlterTypeRequest,
+  AlterTypeAction,
+} from "./hooks/useApi";
 import type { SelectChangeEvent } from "@mui/material";
 
 // --- Types & Interfaces ---
@@ -73,44 +151,1148 @@ interface NewColumnData {
   fkColumn: string;
 }
 
-interface JoinConfig {
-  leftTable: string;
-  rightTable: string;
-  leftKey: string;
-  rightKey: string;
+type ViewMode = "data" | "query" | "schema" | "sql";
+
+// What the data view shows for the active table
+type TableTab = "rows" | "indexes";
+
+// Decides how a column's values are edited and shown
+type TypeKind =
+  | "integer"
+  | "decimal"
+  | "text"
+  | "boolean"
+  | "date"
+  | "time"
+  | "timestamp"
+  | "timestamptz"
+  | "uuid"
+  | "json"
+  | "enum"
+  | "other";
+
+// A column type split into its parts (see parseType)
+interface ParsedType {
+  base: string; // without parameters or [], aliases resolved: "VARCHAR"
+  kind: TypeKind;
+  length?: number; // VARCHAR(n), CHAR(n), TIMESTAMP(p)
+  precision?: number; // NUMERIC(p, s)
+  scale?: number;
+  array: boolean;
+}
+
+interface NodePosition {
+  x: number;
+  y: number;
+}
+
+// Table id -> position of its node on the schema canvas
+type SchemaLayout = Record<string, NodePosition>;
+
+// A column being dragged onto another table to create a foreign key
+interface LinkDrag {
+  table: string;
+  column: string;
+  type: string;
+  from: NodePosition;
+  to: NodePosition;
+}
+
+// One line of the SQL log panel. "sql" entries come from the server as executed
+interface LogEntry {
+  id: number;
+  time: Date;
+  kind: "sql" | "error" | "info";
+  text: string;
+  durationMs?: number;
+  rowCount?: number;
+}
+
+// A grid cell by its position on the current page
+interface CellPosition {
+  row: number;
+  col: number;
+}
+
+// Unsaved inline edits of one row: its key and only the changed values
+interface PendingRowEdit {
+  key: Row;
+  values: Row;
+}
+
+// Rows read from an import file, before mapping
+interface ImportSource {
+  fileName: string;
+  columns: string[];
+  rows: Row[];
+}
+
+// Where one source column goes. `target` is the table column ("" skips it);
+// `type` is the target's type, chosen by the user for a new table.
+interface ImportMapping {
+  source: string;
+  target: string;
+  type: string;
 }
 
+// A value that can't be imported: source row (0-based), column and reason
+interface ImportIssue {
+  row: number;
+  column: string;
+  message: string;
+}
+
+type ImportMode = "existing" | "new";
+
 // --- Constants ---
 
+// Built-in column types offered in the dialogs: `value` is the type with its
+// default parameters, `base` what parseType() makes of it
 const DATA_TYPES = [
-  { label: "Integer", value: "INTEGER", icon: NumberIcon },
-  { label: "Text", value: "VARCHAR(255)", icon: TextIcon },
-  { label: "Boolean", value: "BOOLEAN", icon: BoolIcon },
-  { label: "Date", value: "DATE", icon: DateIcon },
-  { label: "JSON", value: "JSONB", icon: JsonIcon },
+  { label: "Integer", value: "INTEGER", base: "INTEGER", icon: NumberIcon },
+  { label: "Big Integer", value: "BIGINT", base: "BIGINT", icon: NumberIcon },
+  {
+    label: "Decimal",
+    value: "NUMERIC(10,2)",
+    base: "NUMERIC",
+    icon: NumberIcon,
+  },
+  { label: "Text", value: "VARCHAR(255)", base: "VARCHAR", icon: TextIcon },
+  { label: "Long Text", value: "TEXT", base: "TEXT", icon: TextIcon },
+  { label: "Boolean", value: "BOOLEAN", base: "BOOLEAN", icon: BoolIcon },
+  { label: "Date", value: "DATE", base: "DATE", icon: DateIcon },
+  { label: "Time", value: "TIME", base: "TIME", icon: TimeIcon },
+  {
+    label: "Timestamp",
+    value: "TIMESTAMP",
+    base: "TIMESTAMP",
+    icon: TimeIcon,
+  },
+  {
+    label: "Timestamp with Time Zone",
+    value: "TIMESTAMPTZ",
+    base: "TIMESTAMPTZ",
+    icon: TimeIcon,
+  },
+  { label: "UUID", value: "UUID", base: "UUID", icon: UuidIcon },
+  { label: "JSON", value: "JSONB", base: "JSONB", icon: JsonIcon },
+];
+
+// Other spellings of the same type, as the server may report them
+const TYPE_ALIASES: Record<string, string> = {
+  INT: "INTEGER",
+  INT4: "INTEGER",
+  SERIAL: "INTEGER",
+  INT8: "BIGINT",
+  BIGSERIAL: "BIGINT",
+  INT2: "SMALLINT",
+  SMALLSERIAL: "SMALLINT",
+  DECIMAL: "NUMERIC",
+  FLOAT4: "REAL",
+  FLOAT8: "DOUBLE PRECISION",
+  "CHARACTER VARYING": "VARCHAR",
+  CHARACTER: "CHAR",
+  BPCHAR: "CHAR",
+  BOOL: "BOOLEAN",
+  "TIME WITHOUT TIME ZONE": "TIME",
+  "TIME WITH TIME ZONE": "TIMETZ",
+  "TIMESTAMP WITHOUT TIME ZONE": "TIMESTAMP",
+  "TIMESTAMP WITH TIME ZONE": "TIMESTAMPTZ",
+};
+
+const TYPE_KINDS: Record<string, TypeKind> = {
+  SMALLINT: "integer",
+  INTEGER: "integer",
+  BIGINT: "integer",
+  NUMERIC: "decimal",
+  REAL: "decimal",
+  "DOUBLE PRECISION": "decimal",
+  TEXT: "text",
+  VARCHAR: "text",
+  CHAR: "text",
+  BOOLEAN: "boolean",
+  DATE: "date",
+  TIME: "time",
+  TIMETZ: "time",
+  TIMESTAMP: "timestamp",
+  TIMESTAMPTZ: "timestamptz",
+  UUID: "uuid",
+  JSON: "json",
+  JSONB: "json",
+};
+
+// Input element for each kind, in the row dialog and the grid
+const INPUT_TYPES: Partial<Record<TypeKind, string>> = {
+  integer: "number",
+  decimal: "number",
+  date: "date",
+  time: "time",
+  timestamp: "datetime-local",
+  timestamptz: "datetime-local",
+};
+const INPUT_STEPS: Partial<Record<TypeKind, string | number>> = {
+  decimal: "any",
+  time: 1,
+  timestamp: 1,
+  timestamptz: 1,
+};
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const PAGE_SIZE_OPTIONS = [25, 50, 100, 250];
+
+const ALTER_TITLES: Record<AlterAction, string> = {
+  rename_table: "Rename Table",
+  rename_column: "Rename Column",
+  set_type: "Change Column Type",
+  drop_column: "Drop Column",
+  set_nullable: "Change NOT NULL",
+  set_default: "Set Column Default",
+};
+
+const IMPORT_STEPS = ["Choose File", "Map Columns", "Import"];
+const IMPORT_PREVIEW_ROWS = 5;
+const IMPORT_INFER_SAMPLE = 1000; // rows looked at when guessing column types
+const IMPORT_ISSUES_SHOWN = 50;
+
+const INDEX_METHODS: Record<IndexMethod, string> = {
+  btree: "B-tree: equality, ranges and sorting",
+  gin: "GIN: arrays, JSONB and full-text search",
+};
+
+const TYPE_EDIT_TITLES: Record<AlterTypeAction, string> = {
+  rename_type: "Rename Type",
+  add_value: "Add Value",
+  rename_value: "Rename Value",
+};
+
+const EMPTY_TYPE_DRAFT: CreateTypeRequest = {
+  name: "",
+  kind: "enum",
+  values: [],
+  baseType: "TEXT",
+  nullable: true,
+  default: "",
+  check: "",
+};
+
+const BOOLEAN_WORDS: Record<string, boolean> = {
+  true: true,
+  t: true,
+  yes: true,
+  y: true,
+  "1": true,
+  false: false,
+  f: false,
+  no: false,
+  n: false,
+  "0": false,
+};
+
+const JOIN_TYPE_LABELS: Record<JoinType, string> = {
+  inner: "INNER JOIN",
+  left: "LEFT JOIN",
+  right: "RIGHT JOIN",
+  full: "FULL OUTER JOIN",
+};
+
+const AGGREGATE_LABELS: Record<Aggregate, string> = {
+  count: "COUNT",
+  sum: "SUM",
+  avg: "AVG",
+  min: "MIN",
+  max: "MAX",
+};
+
+const OPERATOR_LABELS: Record<Operator, string> = {
+  eq: "=",
+  neq: "≠",
+  lt: "<",
+  lte: "≤",
+  gt: ">",
+  gte: "≥",
+  like: "LIKE",
+  ilike: "ILIKE",
+  in: "IN",
+  is_null: "IS NULL",
+  is_not_null: "IS NOT NULL",
+};
+
+const emptyConditionGroup = (): ConditionGroup => ({
+  combinator: "and",
+  conditions: [],
+  groups: [],
+});
+
+const EMPTY_QUERY: QueryRequest = {
+  baseTable: "",
+  joins: [],
+  columns: [],
+  where: emptyConditionGroup(),
+  groupBy: [],
+  having: emptyConditionGroup(),
+  orderBy: [],
+  limit: 100,
+  offset: 0,
+};
+
+const SQL_KEYWORDS = new Set(
+  (
+    "select from where and or not in is null like ilike between exists as on " +
+    "join inner left right full outer cross group by order having limit " +
+    "offset distinct union all insert into values update set delete create " +
+    "alter drop table column index view primary key foreign references " +
+    "constraint unique default check cascade truncate with returning case " +
+    "when then else end asc desc explain analyze begin commit rollback " +
+    "grant revoke count sum avg min max coalesce true false if add rename to"
+  ).split(" ")
+);
+
+const SQL_TOKEN_PATTERN =
+  /(--[^\n]*|\/\*[\s\S]*?(?:\*\/|$))|('(?:[^']|'')*'?)|("(?:[^"]|"")*"?)|(\b\d+(?:\.\d+)?\b)|([A-Za-z_][A-Za-z0-9_]*)/g;
+
+// Minimal highlighter for the SQL console: comments, strings, numbers, keywords
+const highlightSql = (sql: string): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+  for (const match of sql.matchAll(SQL_TOKEN_PATTERN)) {
+    const [token, comment, str, , num, word] = match;
+    const start = match.index ?? 0;
+    if (start > last) nodes.push(sql.slice(last, start));
+
+    const color = comment
+      ? "#6a9955"
+      : str
+      ? "#ce9178"
+      : num
+      ? "#b5cea8"
+      : word && SQL_KEYWORDS.has(word.toLowerCase())
+      ? "#569cd6"
+      : undefined;
+    nodes.push(
+      color ? (
+        <span key={start} style={{ color }}>
+          {token}
+        </span>
+      ) : (
+        token
+      )
+    );
+    last = start + token.length;
+  }
+  if (last < sql.length) nodes.push(sql.slice(last));
+  return nodes;
+};
+
+const formatCellValue = (value: unknown) =>
+  typeof value === "object" ? JSON.stringify(value) : String(value);
+
+// Schema designer node geometry (px)
+const SCHEMA_NODE_WIDTH = 240;
+const SCHEMA_HEADER_HEIGHT = 36;
+const SCHEMA_ROW_HEIGHT = 26;
+const SCHEMA_GRID_COLUMNS = 4;
+
+const DEFAULT_TABLE_QUERY: TableQuery = {
+  page: 1,
+  pageSize: 50,
+  sortBy: null,
+  sortDir: "asc",
+  filters: {},
+};
+
+// --- Helpers ---
+
+// Primary key values of a row, used to address it in row operations
+const getRowKey = (table: TableResponse, row: Row): Row =>
+  Object.fromEntries(
+    table.columns.filter((c) => c.isPrimary).map((c) => [c.name, row[c.name]])
+  );
+
+const rowKeyId = (key: Row) => JSON.stringify(key);
+
+// A cell value as the text an inline editor starts from
+const toEditText = (value: unknown): string =>
+  value === null || value === undefined
+    ? ""
+    : typeof value === "object"
+    ? JSON.stringify(value)
+    : String(value);
+
+const formatRowKey = (key: Row) =>
+  Object.entries(key)
+    .map(([k, v]) => `${k}=${v}`)
+    .join(", ");
+
+const formatBytes = (bytes: number) => {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+};
+
+// Reads a type as written in DDL or reported by the server, e.g.
+// "NUMERIC(10, 2)", "TIMESTAMP WITH TIME ZONE" or "mood[]". A type is only
+// known to be an enum when its labels are given.
+const parseType = (type: string, enumValues?: string[] | null): ParsedType => {
+  const match =
+    /^\s*([^([]+)(?:\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\))?([A-Za-z ]*)((?:\[\])*)\s*$/.exec(
+      type
+    );
+  if (!match) return { base: type.trim(), kind: "other", array: false };
+
+  const [, name, first, second, suffix, brackets] = match;
+  const array = brackets !== "";
+  if (enumValues?.length) return { base: name.trim(), kind: "enum", array };
+
+  const spelled = `${name} ${suffix}`.trim().toUpperCase().replace(/\s+/g, " ");
+  const base = TYPE_ALIASES[spelled] || spelled;
+  const kind = TYPE_KINDS[base] || "other";
+  const size = first === undefined ? undefined : Number(first);
+  return kind === "decimal"
+    ? {
+        base,
+        kind,
+        precision: size,
+        scale: second === undefined ? undefined : Number(second),
+        array,
+      }
+    : { base, kind, length: size, array };
+};
+
+// The DDL spelling of a parsed type; the inverse of parseType()
+const composeType = (type: ParsedType) => {
+  const params =
+    type.precision !== undefined
+      ? [type.precision, type.scale].filter((p) => p !== undefined)
+      : type.length !== undefined
+      ? [type.length]
+      : [];
+  return `${type.base}${params.length ? `(${params.join(",")})` : ""}${
+    type.array ? "[]" : ""
+  }`;
+};
+
+// Postgres array literal for a list, e.g. {1,2,"a b"}. Lists bound as
+// parameters become JSON on the server, so array columns are sent this way.
+const toArrayLiteral = (items: unknown[]): string =>
+  `{${items
+    .map((item) => {
+      if (item === null || item === undefined) return "NULL";
+      if (Array.isArray(item)) return toArrayLiteral(item);
+      const text =
+        typeof item === "object" ? JSON.stringify(item) : String(item);
+      return text === "" ||
+        /[{}",\\\s]/.test(text) ||
+        text.toUpperCase() === "NULL"
+        ? `"${text.replace(/["\\]/g, "\\$&")}"`
+        : text;
+    })
+    .join(",")}}`;
+
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+// A timestamp as a datetime-local input value; TIMESTAMPTZ values are shown
+// in the browser's time zone
+const toDateTimeInput = (value: unknown, withZone: boolean): string => {
+  if (value === null || value === undefined || value === "") return "";
+  const text = String(value);
+  if (!withZone) return text.replace(" ", "T").replace(/(\.\d{3})\d+$/, "$1");
+  const date = new Date(text);
+  if (isNaN(date.getTime())) return text;
+  return (
+    `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(
+      date.getDate()
+    )}` +
+    `T${pad2(date.getHours())}:${pad2(date.getMinutes())}:${pad2(
+      date.getSeconds()
+    )}`
+  );
+};
+
+// A datetime-local input value as sent to the server: for TIMESTAMPTZ an
+// ISO string in UTC, so the browser's time zone isn't lost
+const fromDateTimeInput = (text: string, withZone: boolean) => {
+  if (!text || !withZone) return text;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? text : date.toISOString();
+};
+
+// A cell value as the text its grid editor works with, and back
+const toCellText = (value: unknown, type: ParsedType): string => {
+  if (type.array && Array.isArray(value)) return toArrayLiteral(value);
+  if (type.kind === "timestamp" || type.kind === "timestamptz") {
+    return toDateTimeInput(value, type.kind === "timestamptz");
+  }
+  return toEditText(value);
+};
+
+const fromCellText = (text: string, type: ParsedType) =>
+  type.kind === "timestamptz" ? fromDateTimeInput(text, true) : text;
+
+const formatTypedValue = (value: unknown, type: ParsedType): string => {
+  if (type.kind === "timestamptz") {
+    const date = new Date(String(value));
+    return isNaN(date.getTime()) ? String(value) : date.toLocaleString();
+  }
+  if (type.kind === "timestamp") return String(value).replace("T", " ");
+  return toEditText(value);
+};
+
+// A non-NULL grid value: arrays as chips, enum labels as a chip, JSON and
+// UUIDs in monospace, TIMESTAMPTZ in local time
+const renderCellValue = (value: unknown, type: ParsedType): React.ReactNode => {
+  if (type.array && Array.isArray(value)) {
+    const itemType = { ...type, array: false };
+    return (
+      <Box sx={{ display: "flex", flexWrap: "wrap", gap: 0.5 }}>
+        {value.map((item, i) => (
+          <Chip
+            key={i}
+            label={item === null ? "NULL" : formatTypedValue(item, itemType)}
+            size="small"
+            variant="outlined"
+            sx={{ height: 20, fontSize: "0.75rem" }}
+          />
+        ))}
+      </Box>
+    );
+  }
+  if (type.kind === "enum") {
+    return (
+      <Chip
+        label={String(value)}
+        size="small"
+        sx={{ height: 20, fontSize: "0.75rem" }}
+      />
+    );
+  }
+  if (type.kind === "json" || type.kind === "uuid") {
+    return (
+      <Box
+        component="span"
+        sx={{ fontFamily: "Monospace", fontSize: "0.8rem" }}
+      >
+        {toEditText(value)}
+      </Box>
+    );
+  }
+  return formatTypedValue(value, type);
+};
+
+let nextLogId = 0;
+
+const createLogEntry = (
+  kind: LogEntry["kind"],
+  text: string,
+  durationMs?: number,
+  rowCount?: number
+): LogEntry => ({
+  id: nextLogId++,
+  time: new Date(),
+  kind,
+  text,
+  durationMs,
+  rowCount,
+});
+
+const describeLogEntry = (entry: LogEntry) => {
+  const parts = [entry.time.toLocaleTimeString()];
+  if (entry.durationMs !== undefined) parts.push(`${entry.durationMs} ms`);
+  if (entry.rowCount !== undefined && entry.rowCount >= 0)
+    parts.push(`${entry.rowCount} row(s)`);
+  return parts.join(" · ");
+};
+
+// Oldest first, so the file replays in execution order. Only SQL is left
+// uncommented; errors and notes become comments.
+const logToSqlScript = (entries: LogEntry[]) =>
+  [...entries]
+    .reverse()
+    .map((entry) => {
+      const header = `-- ${describeLogEntry(entry)}`;
+      if (entry.kind === "sql") {
+        const sql = entry.text.trim();
+        return `${header}\n${sql.endsWith(";") ? sql : sql + ";"}`;
+      }
+      const label =
+        entry.kind === "error" && !entry.text.startsWith("--")
+          ? "[Error] "
+          : "";
+      // Every line commented: Postgres errors carry DETAIL and HINT lines
+      const note = `${label}${entry.text}`
+        .split("\n")
+        .map((line) => (line.startsWith("--") ? line : `-- ${line}`))
+        .join("\n");
+      return `${header}\n${note}`;
+    })
+    .join("\n\n") + "\n";
+
+// Layouts are saved in the browser, one per database
+const layoutStorageKey = (database: string) =>
+  `db-architect:schema-layout:${database}`;
+
+const loadSchemaLayout = (database: string): SchemaLayout => {
+  try {
+    return JSON.parse(localStorage.getItem(layoutStorageKey(database)) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+// Tables without a saved position are laid out on a simple grid
+const defaultNodePosition = (index: number): NodePosition => ({
+  x: 40 + (index % SCHEMA_GRID_COLUMNS) * (SCHEMA_NODE_WIDTH + 80),
+  y: 40 + Math.floor(index / SCHEMA_GRID_COLUMNS) * 320,
+});
+
+const isJoinComplete = (config: QueryRequest) =>
+  !!config.baseTable &&
+  config.joins.every(
+    (step) =>
+      step.table &&
+      step.keys.length > 0 &&
+      step.keys.every((k) => k.leftTable && k.leftColumn && k.rightColumn)
+  );
+
+// Column refs travel through <Select> values as "table.column"
+const refKey = (ref: { table: string; column: string }) =>
+  ref.table ? `${ref.table}.${ref.column}` : "";
+
+const parseRefKey = (key: string) => {
+  const dot = key.indexOf(".");
+  return { table: key.slice(0, dot), column: key.slice(dot + 1) };
+};
+
+// Columns of `table` that the query's joins match on
+const joinKeyColumns = (config: QueryRequest, table: string) => {
+  const columns = new Set<string>();
+  for (const step of config.joins) {
+    for (const key of step.keys) {
+      if (key.leftTable === table) columns.add(key.leftColumn);
+      if (step.table === table) columns.add(key.rightColumn);
+    }
+  }
+  columns.delete(""); // keys still being picked
+  return [...columns];
+};
+
+// Whether a lookup by `column` can use an index: a full (not partial) btree
+// or hash index must lead with it
+const hasSupportingIndex = (indexes: IndexInfo[], column: string) =>
+  indexes.some(
+    (idx) =>
+      idx.columns[0] === column &&
+      !idx.predicate &&
+      (idx.method === "btree" || idx.method === "hash")
+  );
+
+// Drops every column ref pointing at `table` (after it leaves the join chain)
+const pruneGroupRefs = (
+  group: ConditionGroup,
+  table: string
+): ConditionGroup => ({
+  ...group,
+  conditions: group.conditions.filter((c) => c.table !== table),
+  groups: group.groups.map((g) => pruneGroupRefs(g, table)),
+});
+
+const pruneTableRefs = (config: QueryRequest, table: string): QueryRequest => ({
+  ...config,
+  columns: config.columns.filter((c) => c.table !== table),
+  where: config.where && pruneGroupRefs(config.where, table),
+  groupBy: config.groupBy.filter((c) => c.table !== table),
+  having: config.having && pruneGroupRefs(config.having, table),
+  orderBy: config.orderBy.filter((c) => c.table !== table),
+});
+
+// Strips half-filled rows from the builder and turns "in" text into a list
+const toQueryPayload = (config: QueryRequest): QueryRequest => {
+  const cleanGroup = (group: ConditionGroup): ConditionGroup => ({
+    ...group,
+    conditions: group.conditions
+      .filter((c) => c.table && c.column)
+      .map((c) =>
+        c.operator === "in" && typeof c.value === "string"
+          ? {
+              ...c,
+              value: c.value
+                .split(",")
+                .map((v: string) => v.trim())
+                .filter(Boolean),
+            }
+          : c
+      ),
+    groups: group.groups.map(cleanGroup),
+  });
+
+  return {
+    ...config,
+    columns: config.columns
+      .filter((c) => c.table && c.column)
+      .map((c) => ({ ...c, alias: c.alias?.trim() || null })),
+    where: config.where && cleanGroup(config.where),
+    groupBy: config.groupBy.filter((c) => c.table && c.column),
+    having: config.having && cleanGroup(config.having),
+    orderBy: config.orderBy.filter((c) => c.table && c.column),
+  };
+};
+
+// Column type to use for a new foreign key column referencing `type`
+const foreignKeyColumnType = (type: string) => {
+  const { kind, base } = parseType(type);
+  if (kind === "integer") return base === "BIGINT" ? "BIGINT" : "INTEGER";
+  return kind === "other" ? "VARCHAR(255)" : type;
+};
+
+// --- Import Helpers ---
+
+// Minimal RFC 4180 reader: quoted fields, "" escapes, CRLF line ends. The
+// delimiter (comma, semicolon or tab) is the most common one in the header.
+const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, "");
+  const header = source.split(/\r?\n/, 1)[0];
+  const delimiter = [",", ";", "\t"].reduce((best, d) =>
+    header.split(d).length > header.split(best).length ? d : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && source[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((v) => v.trim() !== ""));
+};
+
+// Reads a CSV, a JSON array of objects or the first sheet of an Excel file
+const readImportFile = async (file: File): Promise<ImportSource> => {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith(".json")) {
+    const data = JSON.parse(await file.text());
+    if (
+      !Array.isArray(data) ||
+      !data.every((item) => item && typeof item === "object")
+    ) {
+      throw new Error("The file must contain a JSON array of objects.");
+    }
+    const columns = [...new Set(data.flatMap((item) => Object.keys(item)))];
+    return { fileName: file.name, columns, rows: data };
+  }
+
+  let table: unknown[][];
+  if (name.endsWith(".xlsx") || name.endsWith(".xls")) {
+    // Loaded on demand: the parser is large and only needed here
+    const XLSX = await import("xlsx");
+    const workbook = XLSX.read(await file.arrayBuffer(), {
+      type: "array",
+      cellDates: true,
+    });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    table = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+      header: 1,
+      defval: null,
+      blankrows: false,
+    });
+  } else {
+    table = parseCsv(await file.text());
+  }
+
+  if (table.length < 2) {
+    throw new Error("The file needs a header row and at least one data row.");
+  }
+  const columns = table[0].map(
+    (h, i) => String(h ?? "").trim() || `column_${i + 1}`
+  );
+  return {
+    fileName: file.name,
+    columns,
+    rows: table
+      .slice(1)
+      .map((values) =>
+        Object.fromEntries(columns.map((c, i) => [c, values[i] ?? null]))
+      ),
+  };
+};
+
+// YYYY-MM-DD for a Date, an ISO date or a DD/MM/YYYY date; null if invalid
+const toIsoDate = (value: unknown): string | null => {
+  let year: number, month: number, day: number;
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    [year, month, day] = [
+      value.getFullYear(),
+      value.getMonth() + 1,
+      value.getDate(),
+    ];
+  } else {
+    const text = String(value).trim();
+    const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(text);
+    const dmy = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text);
+    if (iso) [year, month, day] = [+iso[1], +iso[2], +iso[3]];
+    else if (dmy) [year, month, day] = [+dmy[3], +dmy[2], +dmy[1]];
+    else return null;
+  }
+  // Rejects days that don't exist, e.g. 31/02/2024
+  const check = new Date(year, month - 1, day);
+  if (check.getMonth() !== month - 1 || check.getDate() !== day) return null;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// Checks one source value against a column type and converts it to what the
+// server expects. Dates may be YYYY-MM-DD or DD/MM/YYYY, as in the row dialog.
+const convertImportValue = (
+  value: unknown,
+  type: string
+): { value: unknown } | { error: string } => {
+  if (value === null || value === undefined) return { value: null };
+  if (typeof value === "string" && value.trim() === "") return { value: null };
+  const text = value instanceof Date ? toIsoDate(value) : String(value).trim();
+  const { kind } = parseType(type);
+
+  if (kind === "integer") {
+    return /^[+-]?\d+$/.test(String(text))
+      ? { value: text }
+      : { error: `Expected a whole number, got "${text}"` };
+  }
+  if (kind === "decimal") {
+    return /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(String(text))
+      ? { value: text }
+      : { error: `Expected a number, got "${text}"` };
+  }
+  if (kind === "timestamp" || kind === "timestamptz") {
+    if (value instanceof Date) {
+      return {
+        value:
+          kind === "timestamptz"
+            ? value.toISOString()
+            : toDateTimeInput(value.toISOString(), true),
+      };
+    }
+    return isNaN(Date.parse(String(text)))
+      ? { error: `Expected a date and time, got "${text}"` }
+      : { value: text };
+  }
+  if (kind === "uuid") {
+    return UUID_PATTERN.test(String(text))
+      ? { value: text }
+      : { error: `Expected a UUID, got "${text}"` };
+  }
+  if (kind === "boolean") {
+    const flag = BOOLEAN_WORDS[String(text).toLowerCase()];
+    return flag === undefined
+      ? { error: `Expected true or false, got "${text}"` }
+      : { value: flag };
+  }
+  if (kind === "date") {
+    const date = toIsoDate(value);
+    return date
+      ? { value: date }
+      : { error: `Expected a date (YYYY-MM-DD or DD/MM/YYYY), got "${text}"` };
+  }
+  if (kind === "json") {
+    if (typeof value === "object" && !(value instanceof Date)) {
+      return { value };
+    }
+    try {
+      return { value: JSON.parse(String(text)) };
+    } catch {
+      return { error: "Invalid JSON" };
+    }
+  }
+  return {
+    value:
+      typeof value === "object" && !(value instanceof Date)
+        ? JSON.stringify(value)
+        : text,
+  };
+};
+
+// Narrowest of DATA_TYPES that every non-empty value converts to
+const inferColumnType = (values: unknown[]) => {
+  const present = values.filter(
+    (v) => v !== null && v !== undefined && String(v).trim() !== ""
+  );
+  if (present.length === 0) return "VARCHAR(255)";
+  const fits = (type: string) =>
+    present.every((v) => "value" in convertImportValue(v, type));
+
+  for (const type of ["INTEGER", "BOOLEAN", "DATE"]) {
+    if (fits(type)) return type;
+  }
+  const looksJson = present.every(
+    (v) =>
+      (typeof v === "object" && !(v instanceof Date)) ||
+      /^\s*[[{]/.test(String(v))
+  );
+  return looksJson && fits("JSONB") ? "JSONB" : "VARCHAR(255)";
+};
+
+// A source header as a plain lower_snake_case column or table name
+const toColumnName = (header: string) => {
+  const name = header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return (/^[0-9]/.test(name) ? `_${name}` : name || "column").slice(0, 63);
+};
+
+// Converts the source rows per the mapping. Rows with a value that doesn't
+// fit are left out and reported; `sourceRows` maps each result row back.
+const buildImportRows = (
+  source: ImportSource,
+  mapping: ImportMapping[],
+  skipped: number[]
+) => {
+  const rows: Row[] = [];
+  const sourceRows: number[] = [];
+  const issues: ImportIssue[] = [];
+  const skippedRows = new Set(skipped);
+
+  source.rows.forEach((sourceRow, index) => {
+    if (skippedRows.has(index)) return;
+    const row: Row = {};
+    let valid = true;
+    for (const m of mapping) {
+      if (!m.target) continue;
+      const result = convertImportValue(sourceRow[m.source], m.type);
+      if ("error" in result) {
+        issues.push({ row: index, column: m.source, message: result.error });
+        valid = false;
+      } else if (result.value !== null) {
+        row[m.target] = result.value;
+      }
+    }
+    if (valid) {
+      rows.push(row);
+      sourceRows.push(index);
+    }
+  });
+  return { rows, sourceRows, issues };
+};
+
+// --- Export Helpers ---
+
+// "xlsx" is built in the browser from the server's JSON export
+type ExportChoice = ExportFormat | "xlsx";
+type ExportTarget = "table" | "query";
+
+const EXPORT_CHOICES: { value: ExportChoice; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "json", label: "JSON" },
+  { value: "xlsx", label: "Excel (.xlsx)" },
+  { value: "sql", label: "SQL INSERT statements" },
 ];
 
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// A JSON export as a one-sheet workbook; nested JSON values are kept as text
+const toWorkbook = async (json: Blob, sheetName: string): Promise<Blob> => {
+  const XLSX = await import("xlsx");
+  const rows = (JSON.parse(await json.text()) as Row[]).map((row) =>
+    Object.fromEntries(
+      Object.entries(row).map(([key, value]) => [
+        key,
+        value !== null && typeof value === "object"
+          ? JSON.stringify(value)
+          : value,
+      ])
+    )
+  );
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(rows),
+    // Sheet names are at most 31 characters, without []:*?/\
+    sheetName.replace(/[[\]:*?/\\]/g, "_").slice(0, 31)
+  );
+  const data = XLSX.write(workbook, { type: "array", bookType: "xlsx" });
+  return new Blob([data], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+};
+
 export default function App() {
+  // --- SQL Log ---
+  // Declared before useApi so server-reported statements can be appended to it
+  const [sqlLogs, setSqlLogs] = useState<LogEntry[]>(() => [
+    createLogEntry("info", "-- System initialized"),
+  ]);
+
+  const addLog = (text: string, kind: LogEntry["kind"] = "info") => {
+    setSqlLogs((prev) => [createLogEntry(kind, text), ...prev]);
+  };
+
+  const logError = (text: string) => addLog(text, "error");
+
+  const logStatements = useCallback((statements: ExecutedStatement[]) => {
+    const entries = statements.map((s) =>
+      createLogEntry("sql", s.sql, s.durationMs, s.rowCount)
+    );
+    setSqlLogs((prev) => [...entries.reverse(), ...prev]);
+  }, []);
+
   // --- Hooks ---
-  const api = useApi();
+  const api = useApi({ onStatements: logStatements });
 
   // --- State ---
-  const [viewMode, setViewMode] = useState<"data" | "query">("data");
-  const [tables, setTables] = useState<TableResponse[]>([]);
+  const [viewMode, setViewMode] = useState<ViewMode>("data");
   const [activeTableId, setActiveTableId] = useState<string | null>(null);
-  const [sqlLogs, setSqlLogs] = useState<string[]>(["-- System initialized"]);
+  const [tableTab, setTableTab] = useState<TableTab>("rows");
   const [joinResults, setJoinResults] = useState<Row[]>([]);
+  const [joinResultColumns, setJoinResultColumns] = useState<string[]>([]);
 
   // Modal States
   const [isTableModalOpen, setIsTableModalOpen] = useState(false);
   const [isColumnModalOpen, setIsColumnModalOpen] = useState(false);
   const [isRowModalOpen, setIsRowModalOpen] = useState(false);
 
-  // Form States
-  const [newTableName, setNewTableName] = useState("");
-  const [editingRowId, setEditingRowId] = useState<number | string | null>(
+  // Row Selection & Deletion
+  const [selectedRows, setSelectedRows] = useState<Record<string, Row>>({});
+  const [deleteCandidates, setDeleteCandidates] = useState<Row[] | null>(null);
+  const [deleteReferences, setDeleteReferences] = useState<RowReference[]>([]);
+
+  // Inline Cell Editing (table -> row key id -> changed values)
+  const [pendingEdits, setPendingEdits] = useState<
+    Record<string, Record<string, PendingRowEdit>>
+  >({});
+  const [focusedCell, setFocusedCell] = useState<CellPosition | null>(null);
+  const [editingCell, setEditingCell] = useState<CellPosition | null>(null);
+  const [cellDraft, setCellDraft] = useState("");
+  const [cellSaveError, setCellSaveError] = useState<{
+    rowId: string;
+    key: Row;
+    column?: string | null;
+    message: string;
+  } | null>(null);
+  const gridRef = useRef<HTMLTableSectionElement>(null);
+  // Set once the editor is saved or cancelled, so its blur doesn't save again
+  const cellEditorClosed = useRef(true);
+
+  // Import Wizard
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importStep, setImportStep] = useState(0);
+  const [importSource, setImportSource] = useState<ImportSource | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>("existing");
+  const [importTableName, setImportTableName] = useState("");
+  const [importMapping, setImportMapping] = useState<ImportMapping[]>([]);
+  const [importSkipInvalid, setImportSkipInvalid] = useState(false);
+  // Source rows the server rejected, left out when retrying
+  const [importSkipped, setImportSkipped] = useState<number[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importResult, setImportResult] = useState<ImportResponse | null>(null);
+  // Rows the server has gone through while an import runs
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(
+    null
+  );
+
+  // Export
+  const [exportMenu, setExportMenu] = useState<{
+    anchor: HTMLElement;
+    target: ExportTarget;
+  } | null>(null);
+
+  // Schema Alteration
+  const [columnMenu, setColumnMenu] = useState<{
+    anchor: HTMLElement;
+    column: ColumnDef;
+  } | null>(null);
+  const [alterDraft, setAlterDraft] = useState<AlterTableRequest | null>(null);
+  // Name of the table or column being renamed, to tell when it changed
+  const [alterOriginalName, setAlterOriginalName] = useState("");
+  const [alterPreview, setAlterPreview] = useState<AlterTableResponse | null>(
+    null
+  );
+  const [alterError, setAlterError] = useState<string | null>(null);
+
+  // Schema Export / Import
+  const [schemaExportAnchor, setSchemaExportAnchor] =
+    useState<HTMLElement | null>(null);
+  const [isSchemaImportOpen, setIsSchemaImportOpen] = useState(false);
+  const [schemaFile, setSchemaFile] = useState<{
+    name: string;
+    document: SchemaDocument;
+  } | null>(null);
+  const [schemaOnConflict, setSchemaOnConflict] =
+    useState<SchemaImportRequest["onConflict"]>("abort");
+  const [schemaImportError, setSchemaImportError] = useState<string | null>(
+    null
+  );
+  const [schemaImportResult, setSchemaImportResult] =
+    useState<SchemaImportResponse | null>(null);
+
+  // Migration History
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [migrationHistory, setMigrationHistory] =
+    useState<MigrationHistory | null>(null);
+  const [expandedMigration, setExpandedMigration] = useState<number | null>(
     null
   );
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  // Enum & Domain Types
+  const [isTypesOpen, setIsTypesOpen] = useState(false);
+  const [typeDraft, setTypeDraft] =
+    useState<CreateTypeRequest>(EMPTY_TYPE_DRAFT);
+  // The rename or new value being edited on one of the listed types
+  const [typeEdit, setTypeEdit] = useState<AlterTypeRequest | null>(null);
+  const [typesError, setTypesError] = useState<string | null>(null);
+
+  // Index Panel
+  const [tableIndexes, setTableIndexes] = useState<{
+    table: string;
+    indexes: IndexInfo[];
+  } | null>(null);
+  const [indexesError, setIndexesError] = useState<string | null>(null);
+  const [indexDraft, setIndexDraft] = useState<CreateIndexRequest | null>(null);
+  const [indexFormError, setIndexFormError] = useState<string | null>(null);
+
+  // Form States
+  const [newTableName, setNewTableName] = useState("");
+  const [editingRowKey, setEditingRowKey] = useState<Row | null>(null);
 
   const [newColumnData, setNewColumnData] = useState<NewColumnData>({
     name: "",
@@ -121,27 +1303,93 @@ export default function App() {
     fkColumn: "",
   });
 
+  // Enum and domain types defined in the database, offered next to DATA_TYPES
+  const [typeCatalog, setTypeCatalog] = useState<TypeCatalog>({
+    enums: [],
+    domains: [],
+  });
+  const { enums: enumTypes, domains: domainTypes } = typeCatalog;
+
   const [newRowData, setNewRowData] = useState<Row>({});
+  const [rowFormError, setRowFormError] = useState<string | null>(null);
+  // Column name -> message, shown under the input that the server rejected
+  const [rowFieldErrors, setRowFieldErrors] = useState<Record<string, string>>(
+    {}
+  );
+  const [columnFormError, setColumnFormError] = useState<ApiError | null>(null);
+  const [tableFormError, setTableFormError] = useState<string | null>(null);
+
+  // Foreign Key Pickers (options per column of the row being edited)
+  const [fkOptions, setFkOptions] = useState<Record<string, LookupOption[]>>(
+    {}
+  );
+  const fkSearchTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>(
+    {}
+  );
 
   // Join/Query State
-  const [joinConfig, setJoinConfig] = useState<JoinConfig>({
-    leftTable: "",
-    rightTable: "",
-    leftKey: "",
-    rightKey: "",
-  });
+  const [queryConfig, setQueryConfig] = useState<QueryRequest>(EMPTY_QUERY);
+
+  // SQL Console State
+  const [sqlText, setSqlText] = useState("SELECT 1;");
+  const [sqlMode, setSqlMode] = useState<SqlMode>("read");
+  const [sqlResult, setSqlResult] = useState<SqlExecuteResponse | null>(null);
+  const sqlHighlightRef = useRef<HTMLPreElement>(null);
+
+  // Schema Designer State
+  const [databaseName, setDatabaseName] = useState<string | null>(null);
+  const [schemaLayout, setSchemaLayout] = useState<SchemaLayout>({});
+  const [linkDrag, setLinkDrag] = useState<LinkDrag | null>(null);
+  const schemaCanvasRef = useRef<HTMLDivElement>(null);
+
+  // Paging / sorting / filtering, kept per table so switching back restores it
+  const [tableQueries, setTableQueries] = useState<Record<string, TableQuery>>(
+    {}
+  );
 
-  const activeTable = tables.find((t) => t.id === activeTableId);
+  const activeQuery =
+    (activeTableId && tableQueries[activeTableId]) || DEFAULT_TABLE_QUERY;
+
+  // Schemas of every table, rows of the active one
+  const tableCache = useTableCache(api, {
+    activeTable: activeTableId,
+    activeQuery,
+    onError: logError,
+  });
+  const { tables } = tableCache;
+  const activeSchema = tables.find((t) => t.id === activeTableId);
+  const activePage = activeSchema
+    ? tableCache.getPage(activeSchema.id, activeQuery)
+    : undefined;
+  const activeTable: TableResponse | undefined = activeSchema && {
+    ...activeSchema,
+    rows: activePage?.rows || [],
+    total: activePage?.total || 0,
+    page: activePage?.page || activeQuery.page,
+    page_size: activePage?.page_size || activeQuery.pageSize,
+  };
+  const activeHasPrimaryKey = !!activeTable?.columns.some((c) => c.isPrimary);
+  // Parsed once per render for the editors and the grid. A domain column
+  // is edited as the type the domain constrains.
+  const columnTypes: Record<string, ParsedType> = Object.fromEntries(
+    (activeTable?.columns || []).map((c) => {
+      const parsed = parseType(c.type, c.enumValues);
+      const domain = domainTypes.find(
+        (d) => d.name === parsed.base.toLowerCase()
+      );
+      if (!domain) return [c.name, parsed];
+      const base = parseType(domain.baseType);
+      return [c.name, { ...base, array: base.array || parsed.array }];
+    })
+  );
+  const selectedCount = Object.keys(selectedRows).length;
 
   // --- Data Fetching Helper ---
 
-  const refreshTables = async () => {
+  // Refetches what a change made stale, then keeps a table that still exists selected
+  const refreshTables = async (target: Invalidation | "all" = "all") => {
     try {
-      const tableNames = await api.getTables();
-      const fullTables = await Promise.all(
-        tableNames.map((name) => api.getTableData(name))
-      );
-      setTables(fullTables);
+      const tableNames = await tableCache.invalidate(target);
 
       if (activeTableId && !tableNames.includes(activeTableId)) {
         setActiveTableId(tableNames.length > 0 ? tableNames[0] : null);
@@ -149,48 +1397,193 @@ export default function App() {
         setActiveTableId(tableNames[0]);
       }
     } catch (err) {
-      addLog(`[Error] Failed to refresh tables: ${err}`);
+      if (isAbortError(err)) return;
+      logError(`Failed to refresh tables: ${err}`);
+    }
+  };
+
+  const loadTypes = async () => {
+    try {
+      setTypeCatalog(await api.getTypes());
+    } catch (err) {
+      logError(`Failed to load types: ${errorMessage(err)}`);
     }
   };
 
   // Initial Load
   useEffect(() => {
-    refreshTables();
+    refreshTables({ tables: true });
+    loadTypes();
+    api
+      .getServerInfo()
+      .then((info) => {
+        if (!info.database) return;
+        setDatabaseName(info.database);
+        setSchemaLayout(loadSchemaLayout(info.database));
+      })
+      .catch((err) => logError(`Failed to load server info: ${err}`));
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   // Join Data Fetcher
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchJoin = async () => {
-      if (
-        viewMode === "query" &&
-        joinConfig.leftTable &&
-        joinConfig.rightTable &&
-        joinConfig.leftKey &&
-        joinConfig.rightKey
-      ) {
+      if (viewMode === "query" && isJoinComplete(queryConfig)) {
         try {
-          const results = await api.runJoin(joinConfig);
-          setJoinResults(results);
-          addLog(
-            `Executed JOIN: ${joinConfig.leftTable} ⨝ ${joinConfig.rightTable}`
-          );
+          const result = await api.runQuery(toQueryPayload(queryConfig), {
+            signal: controller.signal,
+          });
+          setJoinResults(result.rows);
+          setJoinResultColumns(result.columns);
         } catch (err) {
-          addLog(`[Error] Join failed: ${err}`);
+          if (isAbortError(err)) return;
+          logError(`Join failed: ${err}`);
         }
       }
     };
 
     const timeoutId = setTimeout(fetchJoin, 500);
-    return () => clearTimeout(timeoutId);
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [joinConfig, viewMode]);
+  }, [queryConfig, viewMode]);
 
   // --- Actions ---
 
-  const addLog = (query: string) => {
-    const timestamp = new Date().toLocaleTimeString();
-    setSqlLogs((prev) => [`[${timestamp}] ${query}`, ...prev]);
+  const copyToClipboard = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (err) {
+      logError(`Copy failed: ${errorMessage(err)}`);
+    }
+  };
+
+  const exportSqlLog = () => {
+    const blob = new Blob([logToSqlScript(sqlLogs)], { type: "text/sql" });
+    downloadBlob(
+      blob,
+      `sql-log-${new Date().toISOString().replace(/[:.]/g, "-")}.sql`
+    );
+  };
+
+  const updateActiveQuery = (patch: Partial<TableQuery>) => {
+    if (!activeTableId) return;
+    setFocusedCell(null);
+    setEditingCell(null);
+    setTableQueries((prev) => ({
+      ...prev,
+      [activeTableId]: {
+        ...(prev[activeTableId] || DEFAULT_TABLE_QUERY),
+        ...patch,
+      },
+    }));
+  };
+
+  const toggleSort = (colName: string) => {
+    const isCurrent = activeQuery.sortBy === colName;
+    updateActiveQuery({
+      sortBy: colName,
+      sortDir: isCurrent && activeQuery.sortDir === "asc" ? "desc" : "asc",
+      page: 1,
+    });
+  };
+
+  const setColumnFilter = (colName: string, value: string) => {
+    updateActiveQuery({
+      filters: { ...(activeQuery.filters || {}), [colName]: value },
+      page: 1,
+    });
+  };
+
+  const hasActiveFilters = Object.values(activeQuery.filters || {}).some(
+    (v) => v.trim() !== ""
+  );
+
+  const selectTable = (tableId: string) => {
+    setActiveTableId(tableId);
+    setSelectedRows({});
+    setFocusedCell(null);
+    setEditingCell(null);
+    setCellSaveError(null);
+  };
+
+  const toggleRowSelection = (row: Row) => {
+    if (!activeTable) return;
+    const id = rowKeyId(getRowKey(activeTable, row));
+    setSelectedRows((prev) => {
+      const next = { ...prev };
+      if (next[id]) delete next[id];
+      else next[id] = row;
+      return next;
+    });
+  };
+
+  const pageRowIds = activeTable
+    ? activeTable.rows.map((row) => rowKeyId(getRowKey(activeTable, row)))
+    : [];
+  const allPageRowsSelected =
+    pageRowIds.length > 0 && pageRowIds.every((id) => selectedRows[id]);
+  const somePageRowsSelected = pageRowIds.some((id) => selectedRows[id]);
+  const activeEdits = (activeTableId && pendingEdits[activeTableId]) || {};
+  const pendingEditCount = Object.values(activeEdits).reduce(
+    (count, edit) => count + Object.keys(edit.values).length,
+    0
+  );
+
+  const togglePageSelection = () => {
+    if (!activeTable) return;
+    setSelectedRows((prev) => {
+      const next = { ...prev };
+      activeTable.rows.forEach((row) => {
+        const id = rowKeyId(getRowKey(activeTable, row));
+        if (allPageRowsSelected) delete next[id];
+        else next[id] = row;
+      });
+      return next;
+    });
+  };
+
+  const openDeleteDialog = async (rows: Row[]) => {
+    if (!activeTable || rows.length === 0) return;
+    setDeleteCandidates(rows);
+    setDeleteReferences([]);
+
+    try {
+      const references = await api.getRowReferences({
+        table_name: activeTable.id,
+        keys: rows.map((row) => getRowKey(activeTable, row)),
+      });
+      setDeleteReferences(references);
+    } catch (err) {
+      logError(`Reference check: ${errorMessage(err)}`);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!activeTable || !deleteCandidates) return;
+    const keys = deleteCandidates.map((row) => getRowKey(activeTable, row));
+
+    try {
+      await api.deleteRows({ table_name: activeTable.id, keys });
+
+      setSelectedRows({});
+      setDeleteCandidates(null);
+      setPendingEdits((prev) => {
+        const tableEdits = { ...prev[activeTable.id] };
+        keys.forEach((key) => delete tableEdits[rowKeyId(key)]);
+        return { ...prev, [activeTable.id]: tableEdits };
+      });
+      // Cascades and SET NULL change the referencing tables too
+      await refreshTables({
+        rows: [activeTable.id, ...deleteReferences.map((r) => r.table)],
+      });
+    } catch (err) {
+      logError(`Delete Rows: ${errorMessage(err)}`);
+    }
   };
 
   const createTable = async () => {
@@ -200,19 +1593,45 @@ export default function App() {
     try {
       await api.createTable({
         table_name: id,
-        columns: [{ name: "id", type: "INTEGER", isPrimary: true }],
+        columns: [
+          {
+            name: "id",
+            type: "INTEGER",
+            isPrimary: true,
+            isForeignKey: false,
+            isUnique: false,
+            nullable: false,
+          },
+        ],
       });
-      addLog(`CREATE TABLE ${id} (id INTEGER PRIMARY KEY);`);
 
-      await refreshTables();
+      await refreshTables({ tables: true });
       setActiveTableId(id);
       setNewTableName("");
       setIsTableModalOpen(false);
-    } catch (err: any) {
-      addLog(`[Error] Create Table: ${err.message}`);
+    } catch (err) {
+      setTableFormError(errorMessage(err));
+      logError(`Create Table: ${errorMessage(err)}`);
     }
   };
 
+  const openTableModal = () => {
+    setTableFormError(null);
+    setIsTableModalOpen(true);
+  };
+
+  const openColumnModal = () => {
+    setColumnFormError(null);
+    setIsColumnModalOpen(true);
+    loadTypes();
+  };
+
+  // Message for one Add Column input, when the server named it as the cause
+  const columnFieldError = (field: string) =>
+    columnFormError?.info.field === `column.${field}`
+      ? columnFormError.message
+      : undefined;
+
   const addColumn = async () => {
     if (!newColumnData.name.trim() || !activeTableId) return;
 
@@ -227,6 +1646,8 @@ export default function App() {
         newColumnData.fkColumn
           ? { table: newColumnData.fkTable, column: newColumnData.fkColumn }
           : undefined,
+      isUnique: false,
+      nullable: true,
     };
 
     try {
@@ -235,13 +1656,7 @@ export default function App() {
         column: newCol,
       });
 
-      let sql = `ALTER TABLE ${activeTableId} ADD COLUMN ${newColumnData.name} ${newColumnData.type}`;
-      if (newColumnData.isPrimary) sql += " PRIMARY KEY";
-      if (newColumnData.isForeignKey)
-        sql += ` REFERENCES ${newColumnData.fkTable}(${newColumnData.fkColumn})`;
-      addLog(sql + ";");
-
-      await refreshTables();
+      await refreshTables({ schemas: [activeTableId] });
       setNewColumnData({
         name: "",
         type: "VARCHAR(255)",
@@ -251,583 +1666,3002 @@ export default function App() {
         fkColumn: "",
       });
       setIsColumnModalOpen(false);
-    } catch (err: any) {
-      addLog(`[Error] Add Column: ${err.message}`);
+    } catch (err) {
+      setColumnFormError(
+        err instanceof ApiError
+          ? err
+          : new ApiError(0, { code: "bad_request", message: errorMessage(err) })
+      );
+      logError(`Add Column: ${errorMessage(err)}`);
     }
   };
 
   const openAddRowModal = () => {
-    setEditingRowId(null);
+    setEditingRowKey(null);
+    setRowFormError(null);
+    setRowFieldErrors({});
+    setFkOptions({});
     setNewRowData({});
     setIsRowModalOpen(true);
   };
 
   const openEditRowModal = (row: Row) => {
-    if (row.id !== undefined && row.id !== null) {
-      setEditingRowId(row.id as string | number);
-    }
+    if (!activeTable || !activeHasPrimaryKey) return;
+    setEditingRowKey(getRowKey(activeTable, row));
+    setRowFormError(null);
+    setRowFieldErrors({});
+    setFkOptions({});
     setNewRowData({ ...row });
     setIsRowModalOpen(true);
   };
 
-  const saveRow = async () => {
-    if (!activeTableId) return;
+  const loadFkOptions = (col: ColumnDef, search: string) => {
+    const fk = col.foreignKey;
+    if (!fk) return;
 
-    try {
-      if (editingRowId !== null) {
-        await api.updateRow({
-          table_name: activeTableId,
-          id: editingRowId,
-          data: newRowData,
+    clearTimeout(fkSearchTimers.current[col.name]);
+    fkSearchTimers.current[col.name] = setTimeout(async () => {
+      try {
+        const result = await api.lookupRows(fk.table, {
+          column: fk.column,
+          search,
         });
+        setFkOptions((prev) => ({ ...prev, [col.name]: result.options }));
+      } catch (err) {
+        if (isAbortError(err)) return;
+        logError(`Lookup ${fk.table}: ${errorMessage(err)}`);
+      }
+    }, 250);
+  };
 
-        const setClause = Object.entries(newRowData)
-          .filter(([k]) => k !== "id")
-          .map(([k, v]) => `${k}='${v}'`)
-          .join(", ");
-        addLog(
-          `UPDATE ${activeTableId} SET ${setClause} WHERE id=${editingRowId};`
-        );
+  const setRowValue = (column: string, value: unknown) => {
+    setNewRowData({ ...newRowData, [column]: value });
+    if (rowFieldErrors[column]) {
+      const rest = { ...rowFieldErrors };
+      delete rest[column];
+      setRowFieldErrors(rest);
+    }
+  };
+
+  // Returns a field error for the first foreign key value with no parent row
+  const findMissingForeignKey = async (): Promise<Record<
+    string,
+    string
+  > | null> => {
+    if (!activeTable) return null;
+
+    for (const col of activeTable.columns) {
+      const value = newRowData[col.name];
+      if (!col.foreignKey || value === undefined || value === null) continue;
+      if (String(value).trim() === "") continue;
+
+      const result = await api.lookupRows(col.foreignKey.table, {
+        column: col.foreignKey.column,
+        value,
+        limit: 1,
+      });
+      if (result.options.length === 0) {
+        return {
+          [col.name]: `No row in ${col.foreignKey.table} has ${col.foreignKey.column} = ${value}.`,
+        };
+      }
+    }
+    return null;
+  };
+
+  const jumpToParentRow = (col: ColumnDef, value: unknown) => {
+    const fk = col.foreignKey;
+    if (!fk) return;
+
+    setTableQueries((prev) => ({
+      ...prev,
+      [fk.table]: {
+        ...DEFAULT_TABLE_QUERY,
+        filters: { [fk.column]: `=${value}` },
+      },
+    }));
+    setIsRowModalOpen(false);
+    setViewMode("data");
+    selectTable(fk.table);
+  };
+
+  const saveRow = async () => {
+    if (!activeTableId) return;
+    setRowFormError(null);
+    setRowFieldErrors({});
+
+    try {
+      const missingKey = await findMissingForeignKey();
+      if (missingKey) {
+        setRowFieldErrors(missingKey);
+        return;
+      }
+
+      // Lists from the array inputs go out as array literals
+      const data = Object.fromEntries(
+        Object.entries(newRowData).map(([column, value]) => [
+          column,
+          columnTypes[column]?.array && Array.isArray(value)
+            ? toArrayLiteral(value)
+            : value,
+        ])
+      );
+      if (editingRowKey !== null) {
+        await api.updateRow({
+          table_name: activeTableId,
+          key: editingRowKey,
+          data,
+        });
       } else {
         await api.insertRow({
           table_name: activeTableId,
-          data: newRowData,
+          data,
         });
-
-        const columns = Object.keys(newRowData).join(", ");
-        const values = Object.values(newRowData)
-          .map((v) => `'${v}'`)
-          .join(", ");
-        addLog(
-          `INSERT INTO ${activeTableId} (${columns || "id"}) VALUES (${
-            values || "DEFAULT"
-          });`
-        );
       }
 
-      await refreshTables();
+      await refreshTables({ rows: [activeTableId] });
       setNewRowData({});
       setIsRowModalOpen(false);
-    } catch (err: any) {
-      addLog(`[Error] Row Operation: ${err.message}`);
+    } catch (err) {
+      // Point at the input when the server names a column of this table
+      const column =
+        err instanceof ApiError &&
+        (!err.info.table || err.info.table === activeTableId)
+          ? err.info.column
+          : null;
+      if (column && activeTable?.columns.some((c) => c.name === column)) {
+        setRowFieldErrors({ [column]: errorMessage(err) });
+      } else {
+        setRowFormError(errorMessage(err));
+      }
+      logError(`Row Operation: ${errorMessage(err)}`);
     }
   };
 
-  const deleteTable = async (e: React.MouseEvent, tableId: string) => {
-    e.stopPropagation();
-    if (window.confirm(`Are you sure you want to DROP table "${tableId}"?`)) {
-      try {
-        await api.dropTable(tableId);
-        addLog(`DROP TABLE ${tableId};`);
-        await refreshTables();
-      } catch (err: any) {
-        addLog(`[Error] Drop Table: ${err.message}`);
+  // --- Import Wizard ---
+
+  const openImportWizard = () => {
+    setImportStep(0);
+    setImportSource(null);
+    setImportMode(activeTable ? "existing" : "new");
+    setImportTableName("");
+    setImportMapping([]);
+    setImportSkipInvalid(false);
+    setImportSkipped([]);
+    setImportError(null);
+    setImportResult(null);
+    setIsImportOpen(true);
+  };
+
+  const loadImportFile = async (file: File) => {
+    setImportError(null);
+    setImportResult(null);
+    setImportSkipped([]);
+    try {
+      setImportSource(await readImportFile(file));
+      if (!importTableName) {
+        setImportTableName(toColumnName(file.name.replace(/\.[^.]+$/, "")));
       }
+    } catch (err) {
+      setImportSource(null);
+      setImportError(`Could not read ${file.name}: ${errorMessage(err)}`);
     }
   };
 
-  const joinColumns = joinResults.length > 0 ? Object.keys(joinResults[0]) : [];
+  // Existing table: match columns by name. New table: one column per source
+  // column, with a type guessed from its values.
+  const suggestImportMapping = (source: ImportSource): ImportMapping[] =>
+    source.columns.map((column) => {
+      if (importMode === "existing") {
+        const match = activeTable?.columns.find(
+          (c) =>
+            c.name.toLowerCase() === column.trim().toLowerCase() ||
+            c.name === toColumnName(column)
+        );
+        return {
+          source: column,
+          target: match?.name || "",
+          type: match?.type || "",
+        };
+      }
+      const sample = source.rows
+        .slice(0, IMPORT_INFER_SAMPLE)
+        .map((row) => row[column]);
+      return {
+        source: column,
+        target: toColumnName(column),
+        type: inferColumnType(sample),
+      };
+    });
 
-  // --- Input Renderer for Dynamic Types ---
-  const renderInput = (col: ColumnDef) => {
-    const val =
-      newRowData[col.name] !== undefined && newRowData[col.name] !== null
-        ? newRowData[col.name]
-        : "";
-    const isPK = col.isPrimary && editingRowId === null;
+  const updateImportMapping = (index: number, patch: Partial<ImportMapping>) =>
+    setImportMapping((prev) =>
+      prev.map((m, i) => (i === index ? { ...m, ...patch } : m))
+    );
 
-    // 1. Boolean (Select)
-    if (col.type === "BOOLEAN") {
-      return (
-        <FormControl fullWidth key={col.name}>
-          <InputLabel id={`select-${col.name}`}>{col.name}</InputLabel>
-          <Select
-            labelId={`select-${col.name}`}
-            value={String(val)}
-            label={col.name}
-            onChange={(e) =>
-              setNewRowData({ ...newRowData, [col.name]: e.target.value })
-            }
-          >
-            <MenuItem value="">
-              <em>None</em>
-            </MenuItem>
-            <MenuItem value="true">True</MenuItem>
-            <MenuItem value="false">False</MenuItem>
-          </Select>
-        </FormControl>
-      );
+  const importTargets = importMapping.map((m) => m.target).filter(Boolean);
+  const duplicateImportTargets = importTargets.filter(
+    (t, i) => importTargets.indexOf(t) !== i
+  );
+  // Converting every row is slow for big files, so only when its inputs change
+  const importPlan = useMemo(
+    () =>
+      importSource && importStep === 2
+        ? buildImportRows(importSource, importMapping, importSkipped)
+        : null,
+    [importSource, importStep, importMapping, importSkipped]
+  );
+
+  const canAdvanceImport =
+    importStep === 0
+      ? !!importSource &&
+        (importMode === "existing" ? !!activeTable : !!importTableName.trim())
+      : importTargets.length > 0 && duplicateImportTargets.length === 0;
+
+  const nextImportStep = () => {
+    if (importStep === 0 && importSource) {
+      setImportMapping(suggestImportMapping(importSource));
     }
+    setImportResult(null);
+    setImportStep(importStep + 1);
+  };
 
-    // 2. Integer (Number Input)
-    if (col.type.includes("INT")) {
-      return (
-        <TextField
-          key={col.name}
-          label={col.name}
-          type="number"
-          disabled={isPK}
-          placeholder={isPK ? "(Auto)" : ""}
-          value={val}
-          onChange={(e) =>
-            setNewRowData({ ...newRowData, [col.name]: e.target.value })
-          }
-          InputProps={{
-            endAdornment: (
-              <Box sx={{ display: "flex", gap: 0.5 }}>
-                {col.isPrimary && (
-                  <KeyIcon fontSize="small" sx={{ color: "warning.light" }} />
-                )}
-                {col.foreignKey && (
-                  <LinkIcon fontSize="small" sx={{ color: "info.light" }} />
-                )}
-              </Box>
-            ),
-          }}
-        />
+  const runImport = async () => {
+    if (!importPlan || importPlan.rows.length === 0) return;
+    const tableName =
+      importMode === "new" ? importTableName.trim() : activeTableId;
+    if (!tableName) return;
+    setImportError(null);
+    setImportResult(null);
+
+    // A new table gets the mapped columns, keyed by "id" like Create Table
+    const mapped = importMapping.filter((m) => m.target);
+    const create: ColumnDef[] = [
+      ...(mapped.some((m) => m.target === "id")
+        ? []
+        : [{ name: "id", type: "INTEGER" }]),
+      ...mapped.map((m) => ({ name: m.target, type: m.type })),
+    ].map((c) => ({
+      ...c,
+      isPrimary: c.name === "id",
+      isForeignKey: false,
+      isUnique: false,
+      nullable: c.name !== "id",
+    }));
+
+    setImportProgress({ processed: 0, total: importPlan.rows.length });
+    try {
+      const result = await api.importRows(
+        {
+          table_name: tableName,
+          rows: importPlan.rows,
+          create: importMode === "new" ? create : null,
+        },
+        { onProgress: setImportProgress }
       );
+      setImportResult(result);
+      if (result.errors.length > 0) return;
+
+      if (importMode === "new") {
+        await refreshTables({ tables: true });
+        selectTable(tableName);
+      } else {
+        await refreshTables({ rows: [tableName] });
+      }
+    } catch (err) {
+      setImportError(errorMessage(err));
+      logError(`Import: ${errorMessage(err)}`);
     }
+  };
 
-    // 3. Date (Date Picker)
-    if (col.type === "DATE") {
-      return (
-        <TextField
-          key={col.name}
-          label={col.name}
-          type="date"
-          value={val}
-          onChange={(e) =>
-            setNewRowData({ ...newRowData, [col.name]: e.target.value })
-          }
-          InputLabelProps={{ shrink: true }}
-          InputProps={{
-            endAdornment: (
-              <Box sx={{ display: "flex", gap: 0.5 }}>
-                {col.isPrimary && (
-                  <KeyIcon fontSize="small" sx={{ color: "warning.light" }} />
-                )}
-                {col.foreignKey && (
-                  <LinkIcon fontSize="small" sx={{ color: "info.light" }} />
-                )}
-              </Box>
-            ),
-          }}
-        />
+  // Leaves out the rows the server rejected so the rest can be imported
+  const skipFailedImportRows = () => {
+    if (!importPlan || !importResult) return;
+    const failed = importResult.errors.map(
+      (e) => importPlan.sourceRows[e.index]
+    );
+    setImportSkipped((prev) => [...prev, ...failed]);
+    setImportResult(null);
+  };
+
+  // --- Export ---
+
+  // Downloads every matching row, not just the loaded page: the active table
+  // with its sort and filters, or the query without its limit
+  const exportData = async (target: ExportTarget, choice: ExportChoice) => {
+    setExportMenu(null);
+    const format = choice === "xlsx" ? "json" : choice;
+    try {
+      let blob: Blob;
+      let name: string;
+      if (target === "table") {
+        if (!activeTableId) return;
+        blob = await api.exportTable(activeTableId, format, activeQuery);
+        name = activeTableId;
+      } else {
+        blob = await api.exportQuery(toQueryPayload(queryConfig), format);
+        name = `${queryConfig.baseTable}-query`;
+      }
+      if (choice === "xlsx") blob = await toWorkbook(blob, name);
+      downloadBlob(blob, `${name}.${choice}`);
+    } catch (err) {
+      logError(`Export failed: ${errorMessage(err)}`);
+    }
+  };
+
+  // --- Schema Alteration ---
+
+  const openAlterDialog = (
+    draft: Omit<AlterTableRequest, "table_name" | "preview">
+  ) => {
+    if (!activeTableId) return;
+    setColumnMenu(null);
+    setAlterPreview(null);
+    setAlterError(null);
+    setAlterOriginalName(draft.newName || "");
+    setAlterDraft({ table_name: activeTableId, ...draft, preview: false });
+    if (draft.action === "set_type") loadTypes();
+  };
+
+  const updateAlterDraft = (patch: Partial<AlterTableRequest>) => {
+    setAlterPreview(null);
+    setAlterDraft((prev) => prev && { ...prev, ...patch });
+  };
+
+  // A rename needs a new name and a type change a type before there's
+  // anything to preview
+  const alterReady =
+    !!alterDraft &&
+    (alterDraft.action === "rename_table" ||
+    alterDraft.action === "rename_column"
+      ? !!alterDraft.newName?.trim() && alterDraft.newName !== alterOriginalName
+      : alterDraft.action !== "set_type" || !!alterDraft.type?.trim());
+
+  const applyAlter = async () => {
+    if (!alterDraft) return;
+    const { table_name, action, column, newName } = alterDraft;
+    setAlterError(null);
+    try {
+      await api.alterTable(alterDraft);
+      setAlterDraft(null);
+
+      // The grid can't keep sorting or filtering by a column that's gone
+      if (column && (action === "rename_column" || action === "drop_column")) {
+        const filters = { ...(activeQuery.filters || {}) };
+        delete filters[column];
+        updateActiveQuery({
+          filters,
+          sortBy: activeQuery.sortBy === column ? null : activeQuery.sortBy,
+          page: 1,
+        });
+      }
+
+      // Other tables' foreign keys follow a renamed table or column
+      const referencing = tables
+        .filter(
+          (t) =>
+            t.id !== table_name &&
+            t.columns.some((c) => c.foreignKey?.table === table_name)
+        )
+        .map((t) => t.id);
+      if (action === "rename_table" && newName) {
+        await refreshTables({ tables: true, schemas: referencing });
+        setActiveTableId(newName);
+      } else {
+        await refreshTables({ schemas: [table_name, ...referencing] });
+      }
+    } catch (err) {
+      setAlterError(errorMessage(err));
+      logError(`Alter Table: ${errorMessage(err)}`);
+    }
+  };
+
+  // Alteration Preview: the DDL, and rows it would fail on, while editing
+  useEffect(() => {
+    if (!alterDraft || !alterReady) return;
+    const controller = new AbortController();
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const preview = await api.alterTable(
+          { ...alterDraft, preview: true },
+          { signal: controller.signal }
+        );
+        setAlterPreview(preview);
+        setAlterError(null);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setAlterError(errorMessage(err));
+      }
+    }, 300);
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [alterDraft, alterReady]);
+
+  // --- Schema Export / Import ---
+
+  const exportSchema = async (format: "sql" | "json") => {
+    setSchemaExportAnchor(null);
+    try {
+      const { sql, warnings, ...document } = await api.exportSchema();
+      const name = `${databaseName || "database"}-schema`;
+      downloadBlob(
+        format === "sql"
+          ? new Blob([sql], { type: "text/sql" })
+          : new Blob([JSON.stringify(document, null, 2)], {
+              type: "application/json",
+            }),
+        `${name}.${format}`
       );
+      warnings.forEach((warning) => logError(`Schema export: ${warning}`));
+    } catch (err) {
+      logError(`Schema export failed: ${errorMessage(err)}`);
     }
+  };
 
-    // 4. JSON (Multiline)
-    if (col.type === "JSONB" || col.type === "JSON") {
-      return (
-        <TextField
-          key={col.name}
-          label={col.name}
-          multiline
-          rows={4}
-          placeholder='{"key": "value"}'
-          value={typeof val === "object" ? JSON.stringify(val, null, 2) : val}
-          onChange={(e) =>
-            setNewRowData({ ...newRowData, [col.name]: e.target.value })
-          }
-          InputProps={{
-            endAdornment: (
-              <Box
-                sx={{
-                  display: "flex",
-                  gap: 0.5,
-                  alignSelf: "flex-start",
-                  mt: 1,
-                }}
-              >
-                <JsonIcon fontSize="small" sx={{ color: "action.active" }} />
-              </Box>
-            ),
-          }}
-        />
+  const openSchemaImport = () => {
+    setSchemaFile(null);
+    setSchemaOnConflict("abort");
+    setSchemaImportError(null);
+    setSchemaImportResult(null);
+    setIsSchemaImportOpen(true);
+  };
+
+  const loadSchemaFile = async (file: File) => {
+    setSchemaImportError(null);
+    setSchemaImportResult(null);
+    try {
+      const document = JSON.parse(await file.text());
+      if (!Array.isArray(document?.tables)) {
+        throw new Error(
+          'expected a schema document with a "tables" list, as written by Export Schema.'
+        );
+      }
+      setSchemaFile({ name: file.name, document });
+    } catch (err) {
+      setSchemaFile(null);
+      setSchemaImportError(`Could not read ${file.name}: ${errorMessage(err)}`);
+    }
+  };
+
+  const runSchemaImport = async () => {
+    if (!schemaFile) return;
+    setSchemaImportError(null);
+    setSchemaImportResult(null);
+    try {
+      const result = await api.importSchema({
+        ...schemaFile.document,
+        onConflict: schemaOnConflict,
+      });
+      setSchemaImportResult(result);
+      if (result.created.length > 0) await refreshTables({ tables: true });
+    } catch (err) {
+      setSchemaImportError(errorMessage(err));
+      logError(`Schema import: ${errorMessage(err)}`);
+    }
+  };
+
+  // --- Migration History ---
+
+  const loadMigrations = async () => {
+    try {
+      setMigrationHistory(await api.getMigrations());
+    } catch (err) {
+      setHistoryError(errorMessage(err));
+    }
+  };
+
+  const openHistory = () => {
+    setMigrationHistory(null);
+    setExpandedMigration(null);
+    setHistoryError(null);
+    setIsHistoryOpen(true);
+    loadMigrations();
+  };
+
+  // Undoes `version` and everything after it
+  const undoMigrations = async (version: number) => {
+    if (!migrationHistory) return;
+    const count = migrationHistory.version - version + 1;
+    if (
+      !window.confirm(
+        `Roll back ${count} ${
+          count === 1 ? "migration" : "migrations"
+        } to version ${
+          version - 1
+        }? Rows in dropped columns and tables don't come back.`
+      )
+    ) {
+      return;
+    }
+    setHistoryError(null);
+    try {
+      await api.rollbackMigrations(version - 1);
+      await loadMigrations();
+      // Any table or type may have been created, dropped or changed
+      await refreshTables("all");
+      await loadTypes();
+    } catch (err) {
+      setHistoryError(errorMessage(err));
+      logError(`Rollback: ${errorMessage(err)}`);
+    }
+  };
+
+  const exportMigrationFiles = async () => {
+    try {
+      const blob = await api.exportMigrations();
+      downloadBlob(blob, `${databaseName || "database"}-migrations.zip`);
+    } catch (err) {
+      logError(`Migration export failed: ${errorMessage(err)}`);
+    }
+  };
+
+  // --- Enum & Domain Types ---
+
+  const openTypes = () => {
+    setTypeDraft(EMPTY_TYPE_DRAFT);
+    setTypeEdit(null);
+    setTypesError(null);
+    setIsTypesOpen(true);
+    loadTypes();
+  };
+
+  // Tables with a column of the type, whose schemas change along with it
+  const tablesUsingType = (name: string) => {
+    const usedBy =
+      [...enumTypes, ...domainTypes].find((t) => t.name === name)?.usedBy || [];
+    return tables
+      .filter((t) => usedBy.some((ref) => ref.startsWith(`${t.id}.`)))
+      .map((t) => t.id);
+  };
+
+  const createUserType = async () => {
+    setTypesError(null);
+    const name = typeDraft.name.trim();
+    try {
+      await api.createType(
+        typeDraft.kind === "enum"
+          ? { name, kind: "enum", values: typeDraft.values, nullable: true }
+          : { ...typeDraft, name, values: [] }
       );
+      setTypeDraft(EMPTY_TYPE_DRAFT);
+      await loadTypes();
+    } catch (err) {
+      setTypesError(errorMessage(err));
+      logError(`Create Type: ${errorMessage(err)}`);
     }
+  };
 
-    // Default (Text)
-    return (
-      <TextField
-        key={col.name}
-        label={col.name}
-        disabled={isPK}
-        placeholder={isPK ? "(Auto)" : ""}
-        value={val}
-        onChange={(e) =>
-          setNewRowData({ ...newRowData, [col.name]: e.target.value })
-        }
-        InputProps={{
-          endAdornment: (
-            <Box sx={{ display: "flex", gap: 0.5 }}>
-              {col.isPrimary && (
-                <KeyIcon fontSize="small" sx={{ color: "warning.light" }} />
-              )}
-              {col.foreignKey && (
-                <LinkIcon fontSize="small" sx={{ color: "info.light" }} />
-              )}
-            </Box>
-          ),
-        }}
-      />
-    );
+  const applyTypeEdit = async () => {
+    if (!typeEdit) return;
+    setTypesError(null);
+    const affected = tablesUsingType(typeEdit.name);
+    try {
+      await api.alterType(typeEdit);
+      setTypeEdit(null);
+      await loadTypes();
+      // Columns of the type report its new name or values
+      if (affected.length > 0) await refreshTables({ schemas: affected });
+    } catch (err) {
+      setTypesError(errorMessage(err));
+      logError(`Alter Type: ${errorMessage(err)}`);
+    }
   };
 
-  // --- Renders ---
+  const dropUserType = async (name: string) => {
+    if (!window.confirm(`Drop type ${name}?`)) return;
+    setTypesError(null);
+    try {
+      await api.dropType(name);
+      await loadTypes();
+    } catch (err) {
+      setTypesError(errorMessage(err));
+      logError(`Drop Type: ${errorMessage(err)}`);
+    }
+  };
 
-  return (
-    <>
-      <CssBaseline />
-      <Box
-        sx={{
-          display: "flex",
-          height: "100vh",
-          width: "100vw",
-          bgcolor: "grey.100",
-          overflow: "hidden",
-        }}
-      >
-        {/* Sidebar */}
-        <Paper
-          square
-          elevation={2}
-          sx={{
-            width: 260,
-            bgcolor: "#1a2027",
-            color: "grey.300",
-            display: "flex",
-            flexDirection: "column",
-            borderRight: "1px solid #333",
-            flexShrink: 0,
-          }}
-        >
-          <Box
-            sx={{
-              p: 2,
-              display: "flex",
-              alignItems: "center",
-              gap: 2,
-              borderBottom: "1px solid #333",
-            }}
-          >
-            <Box
-              sx={{
-                width: 36,
-                height: 36,
-                bgcolor: "primary.main",
-                borderRadius: 2,
-                display: "flex",
-                alignItems: "center",
-                justifyContent: "center",
-                boxShadow: "0 4px 12px rgba(0,0,0,0.5)",
-              }}
+  // --- Indexes ---
+
+  const loadIndexes = async (table: string) => {
+    try {
+      setTableIndexes({ table, indexes: await api.getIndexes(table) });
+      setIndexesError(null);
+    } catch (err) {
+      setIndexesError(errorMessage(err));
+    }
+  };
+
+  // Index Panel Fetcher
+  useEffect(() => {
+    if (viewMode !== "data" || tableTab !== "indexes" || !activeTableId) {
+      return;
+    }
+    const controller = new AbortController();
+    api
+      .getIndexes(activeTableId, { signal: controller.signal })
+      .then((indexes) => {
+        setTableIndexes({ table: activeTableId, indexes });
+        setIndexesError(null);
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) setIndexesError(errorMessage(err));
+      });
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [viewMode, tableTab, activeTableId]);
+
+  const openIndexDialog = (columns: string[] = []) => {
+    if (!activeTableId) return;
+    setIndexFormError(null);
+    setIndexDraft({
+      table_name: activeTableId,
+      columns,
+      name: "",
+      method: "btree",
+      unique: false,
+      where: "",
+    });
+  };
+
+  const saveIndex = async () => {
+    if (!indexDraft) return;
+    setIndexFormError(null);
+    try {
+      await api.createIndex({
+        ...indexDraft,
+        name: indexDraft.name?.trim() || null,
+        where: indexDraft.where?.trim() || null,
+      });
+      setIndexDraft(null);
+      await loadIndexes(indexDraft.table_name);
+      // A unique index shows up as a unique constraint in the schema
+      if (indexDraft.unique) {
+        await refreshTables({ schemas: [indexDraft.table_name] });
+      }
+    } catch (err) {
+      setIndexFormError(errorMessage(err));
+      logError(`Create Index: ${errorMessage(err)}`);
+    }
+  };
+
+  const dropTableIndex = async (table: string, index: IndexInfo) => {
+    if (!window.confirm(`Drop index ${index.name}?`)) return;
+    setIndexesError(null);
+    try {
+      await api.dropIndex(table, index.name);
+      await loadIndexes(table);
+      if (index.unique) await refreshTables({ schemas: [table] });
+    } catch (err) {
+      setIndexesError(errorMessage(err));
+      logError(`Drop Index: ${errorMessage(err)}`);
+    }
+  };
+
+  // --- Inline Cell Editing ---
+
+  const moveFocus = (dRow: number, dCol: number, wrap = false) => {
+    if (!activeTable) return;
+    const rowCount = activeTable.rows.length;
+    const colCount = activeTable.columns.length;
+    if (rowCount === 0 || colCount === 0) return;
+
+    const from = focusedCell || { row: 0, col: 0 };
+    let row = from.row + dRow;
+    let col = from.col + dCol;
+    // Tab runs on to the next (or previous) row
+    if (wrap && col >= colCount) {
+      col = 0;
+      row += 1;
+    } else if (wrap && col < 0) {
+      col = colCount - 1;
+      row -= 1;
+    }
+    setFocusedCell({
+      row: Math.min(Math.max(row, 0), rowCount - 1),
+      col: Math.min(Math.max(col, 0), colCount - 1),
+    });
+  };
+
+  const startCellEdit = (cell: CellPosition, initial?: string) => {
+    if (!activeTable || !activeHasPrimaryKey) return;
+    const col = activeTable.columns[cell.col];
+    const edit = activeEdits[pageRowIds[cell.row]];
+    const value =
+      edit && col.name in edit.values
+        ? edit.values[col.name]
+        : activeTable.rows[cell.row][col.name];
+
+    cellEditorClosed.current = false;
+    setFocusedCell(cell);
+    setEditingCell(cell);
+    setCellDraft(initial ?? toCellText(value, columnTypes[col.name]));
+    if (col.foreignKey) {
+      setFkOptions({});
+      loadFkOptions(col, "");
+    }
+  };
+
+  // Stores the draft as a pending change, or drops it if it matches the row
+  const commitCellEdit = (value: string = cellDraft) => {
+    if (!activeTable || !editingCell || cellEditorClosed.current) return;
+    cellEditorClosed.current = true;
+    const row = activeTable.rows[editingCell.row];
+    const col = activeTable.columns[editingCell.col];
+    const id = pageRowIds[editingCell.row];
+    const tableId = activeTable.id;
+
+    setPendingEdits((prev) => {
+      const tableEdits = { ...prev[tableId] };
+      const values = { ...tableEdits[id]?.values };
+      const type = columnTypes[col.name];
+      if (value === toCellText(row[col.name], type)) delete values[col.name];
+      else values[col.name] = fromCellText(value, type);
+
+      if (Object.keys(values).length > 0) {
+        tableEdits[id] = { key: getRowKey(activeTable, row), values };
+      } else {
+        delete tableEdits[id];
+      }
+      return { ...prev, [tableId]: tableEdits };
+    });
+    setEditingCell(null);
+    gridRef.current?.focus();
+  };
+
+  const cancelCellEdit = () => {
+    cellEditorClosed.current = true;
+    setEditingCell(null);
+    gridRef.current?.focus();
+  };
+
+  const revertCell = (cell: CellPosition) => {
+    if (!activeTable) return;
+    const id = pageRowIds[cell.row];
+    const column = activeTable.columns[cell.col].name;
+    const edit = activeEdits[id];
+    if (!edit || !(column in edit.values)) return;
+
+    const values = { ...edit.values };
+    delete values[column];
+    setPendingEdits((prev) => {
+      const tableEdits = { ...prev[activeTable.id] };
+      if (Object.keys(values).length > 0) {
+        tableEdits[id] = { ...edit, values };
+      } else {
+        delete tableEdits[id];
+      }
+      return { ...prev, [activeTable.id]: tableEdits };
+    });
+  };
+
+  // Spreadsheet keys: arrows/Tab move, Enter or F2 edits, typing replaces
+  // the value, Esc reverts the cell. While editing, Enter and Tab save the
+  // cell and move on, Esc cancels.
+  const handleGridKeyDown = (e: React.KeyboardEvent) => {
+    if (!activeTable) return;
+
+    if (editingCell) {
+      // Already handled by the editor, e.g. Enter picking an option
+      if (e.defaultPrevented) return;
+      if (e.key === "Enter") {
+        e.preventDefault();
+        commitCellEdit();
+        moveFocus(1, 0);
+      } else if (e.key === "Tab") {
+        e.preventDefault();
+        commitCellEdit();
+        moveFocus(0, e.shiftKey ? -1 : 1, true);
+      } else if (e.key === "Escape") {
+        e.preventDefault();
+        cancelCellEdit();
+      }
+      return;
+    }
+
+    // Keys typed into the filters, checkboxes and buttons are theirs
+    if (e.target !== e.currentTarget) return;
+
+    const arrows: Record<string, [number, number]> = {
+      ArrowUp: [-1, 0],
+      ArrowDown: [1, 0],
+      ArrowLeft: [0, -1],
+      ArrowRight: [0, 1],
+    };
+    if (arrows[e.key]) {
+      e.preventDefault();
+      moveFocus(...arrows[e.key]);
+      return;
+    }
+    if (!focusedCell) return;
+
+    const col = activeTable.columns[focusedCell.col];
+    if (e.key === "Tab") {
+      e.preventDefault();
+      moveFocus(0, e.shiftKey ? -1 : 1, true);
+    } else if (e.key === "Enter" || e.key === "F2") {
+      e.preventDefault();
+      startCellEdit(focusedCell);
+    } else if (e.key === "Escape") {
+      revertCell(focusedCell);
+    } else if (
+      e.key.length === 1 &&
+      !e.ctrlKey &&
+      !e.metaKey &&
+      !e.altKey &&
+      !col.foreignKey &&
+      !["boolean", "enum"].includes(columnTypes[col.name].kind)
+    ) {
+      e.preventDefault();
+      startCellEdit(focusedCell, e.key);
+    }
+  };
+
+  // Saves every pending row of the active table in one transaction: either
+  // all of them are written, or none are and the failing row is pointed out
+  const saveCellEdits = async () => {
+    if (!activeTable) return;
+    const tableId = activeTable.id;
+    const edits = Object.entries(pendingEdits[tableId] || {});
+    setCellSaveError(null);
+
+    try {
+      await api.batchMutations({
+        operations: edits.map(([, edit]) => ({
+          op: "update",
+          table_name: tableId,
+          key: edit.key,
+          data: edit.values,
+          keys: [],
+        })),
+      });
+      setPendingEdits((prev) => ({ ...prev, [tableId]: {} }));
+      await refreshTables({ rows: [tableId] });
+    } catch (err) {
+      const failed =
+        err instanceof ApiError ? edits[err.info.operation ?? -1] : undefined;
+      if (failed && err instanceof ApiError) {
+        setCellSaveError({
+          rowId: failed[0],
+          key: failed[1].key,
+          column: err.info.column,
+          message: err.message,
+        });
+      }
+      logError(`Save Edits: ${errorMessage(err)}`);
+    }
+  };
+
+  const discardCellEdits = () => {
+    if (!activeTableId) return;
+    setPendingEdits((prev) => ({ ...prev, [activeTableId]: {} }));
+    setEditingCell(null);
+    setCellSaveError(null);
+  };
+
+  const deleteTable = async (e: React.MouseEvent, tableId: string) => {
+    e.stopPropagation();
+    if (window.confirm(`Are you sure you want to DROP table "${tableId}"?`)) {
+      try {
+        await api.dropTable(tableId);
+        // CASCADE also drops the foreign keys pointing at it
+        await refreshTables({
+          tables: true,
+          schemas: tables
+            .filter((t) =>
+              t.columns.some((c) => c.foreignKey?.table === tableId)
+            )
+            .map((t) => t.id),
+        });
+      } catch (err) {
+        logError(`Drop Table: ${errorMessage(err)}`);
+      }
+    }
+  };
+
+  // --- SQL Console ---
+
+  const runSql = async () => {
+    if (!sqlText.trim()) return;
+    try {
+      const result = await api.executeSql({ sql: sqlText, mode: sqlMode });
+      setSqlResult(result);
+
+      // Schema or data may have changed under the other views
+      if (sqlMode === "write") await refreshTables("all");
+    } catch (err) {
+      setSqlResult(null);
+      logError(`SQL Console: ${errorMessage(err)}`);
+    }
+  };
+
+  // --- Schema Designer ---
+
+  const nodePosition = (tableId: string, index: number) =>
+    schemaLayout[tableId] || defaultNodePosition(index);
+
+  const toCanvasPoint = (e: { clientX: number; clientY: number }) => {
+    const rect = schemaCanvasRef.current?.getBoundingClientRect();
+    return {
+      x: e.clientX - (rect?.left ?? 0),
+      y: e.clientY - (rect?.top ?? 0),
+    };
+  };
+
+  const saveSchemaLayout = (layout: SchemaLayout) => {
+    if (!databaseName) return;
+    localStorage.setItem(
+      layoutStorageKey(databaseName),
+      JSON.stringify(layout)
+    );
+  };
+
+  const resetSchemaLayout = () => {
+    setSchemaLayout({});
+    if (databaseName) localStorage.removeItem(layoutStorageKey(databaseName));
+  };
+
+  const startNodeDrag = (
+    e: React.PointerEvent,
+    tableId: string,
+    index: number
+  ) => {
+    e.preventDefault();
+    const start = nodePosition(tableId, index);
+    const origin = toCanvasPoint(e);
+
+    // Pin every node where it is now, so adding/dropping tables later
+    // doesn't shuffle the ones still on their default grid spot
+    let latest: SchemaLayout = Object.fromEntries(
+      tables.map((t, i) => [t.id, nodePosition(t.id, i)])
+    );
+
+    const onMove = (ev: PointerEvent) => {
+      const p = toCanvasPoint(ev);
+      latest = {
+        ...latest,
+        [tableId]: {
+          x: Math.max(0, start.x + p.x - origin.x),
+          y: Math.max(0, start.y + p.y - origin.y),
+        },
+      };
+      setSchemaLayout(latest);
+    };
+    const onUp = () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+      saveSchemaLayout(latest);
+    };
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+  };
+
+  const startLinkDrag = (
+    e: React.PointerEvent,
+    table: TableSchema,
+    col: ColumnDef
+  ) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const from = toCanvasPoint(e);
+    setLinkDrag({
+      table: table.id,
+      column: col.name,
+      type: col.type,
+      from,
+      to: from,
+    });
+
+    const onMove = (ev: PointerEvent) =>
+      setLinkDrag((prev) => prev && { ...prev, to: toCanvasPoint(ev) });
+    const onUp = () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+      setLinkDrag(null);
+    };
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+  };
+
+  // Dropping a column on another table opens the Add Column dialog for that
+  // table, pre-filled with a foreign key to the dragged column
+  const dropLinkOnTable = (targetTableId: string) => {
+    if (!linkDrag || linkDrag.table === targetTableId) return;
+
+    selectTable(targetTableId);
+    setNewColumnData({
+      name: `${linkDrag.table}_${linkDrag.column}`,
+      type: foreignKeyColumnType(linkDrag.type),
+      isPrimary: false,
+      isForeignKey: true,
+      fkTable: linkDrag.table,
+      fkColumn: linkDrag.column,
+    });
+    openColumnModal();
+  };
+
+  const schemaEdges = tables.flatMap((table, ti) =>
+    table.columns.flatMap((col, ci) => {
+      const fk = col.foreignKey;
+      if (!fk) return [];
+      const pi = tables.findIndex((t) => t.id === fk.table);
+      if (pi === -1) return [];
+      const pci = tables[pi].columns.findIndex((c) => c.name === fk.column);
+
+      const child = nodePosition(table.id, ti);
+      const parent = nodePosition(fk.table, pi);
+      const childY =
+        child.y + SCHEMA_HEADER_HEIGHT + (ci + 0.5) * SCHEMA_ROW_HEIGHT;
+      const parentY =
+        parent.y +
+        SCHEMA_HEADER_HEIGHT +
+        (Math.max(pci, 0) + 0.5) * SCHEMA_ROW_HEIGHT;
+
+      // Self references loop out on the right; otherwise connect facing sides
+      const selfRef = table.id === fk.table;
+      const childOnLeft = selfRef || child.x <= parent.x;
+      const x1 = childOnLeft ? child.x + SCHEMA_NODE_WIDTH : child.x;
+      const x2 = selfRef
+        ? parent.x + SCHEMA_NODE_WIDTH
+        : childOnLeft
+        ? parent.x
+        : parent.x + SCHEMA_NODE_WIDTH;
+      const bend = selfRef ? 60 : Math.max(40, Math.abs(x2 - x1) / 2);
+      const d1 = childOnLeft ? bend : -bend;
+      const d2 = selfRef ? bend : -d1;
+
+      return [
+        {
+          id: `${table.id}.${col.name}`,
+          label: `${table.id}.${col.name} → ${fk.table}.${fk.column}`,
+          path: `M ${x1} ${childY} C ${x1 + d1} ${childY}, ${
+            x2 + d2
+          } ${parentY}, ${x2} ${parentY}`,
+        },
+      ];
+    })
+  );
+
+  const schemaCanvasSize = tables.reduce(
+    (size, table, i) => {
+      const pos = nodePosition(table.id, i);
+      return {
+        width: Math.max(size.width, pos.x + SCHEMA_NODE_WIDTH + 80),
+        height: Math.max(
+          size.height,
+          pos.y +
+            SCHEMA_HEADER_HEIGHT +
+            table.columns.length * SCHEMA_ROW_HEIGHT +
+            80
+        ),
+      };
+    },
+    { width: 0, height: 0 }
+  );
+
+  // --- Join Builder ---
+
+  const joinChain = [
+    queryConfig.baseTable,
+    ...queryConfig.joins.map((s) => s.table),
+  ].filter(Boolean);
+
+  // Prefers a foreign key between the new table and one already in the chain
+  const suggestJoinKey = (chain: string[], tableId: string): JoinKeyPair => {
+    const table = tables.find((t) => t.id === tableId);
+    const outgoing = table?.columns.find(
+      (c) => c.foreignKey && chain.includes(c.foreignKey.table)
+    );
+    if (outgoing?.foreignKey) {
+      return {
+        leftTable: outgoing.foreignKey.table,
+        leftColumn: outgoing.foreignKey.column,
+        rightColumn: outgoing.name,
+      };
+    }
+    for (const id of chain) {
+      const incoming = tables
+        .find((t) => t.id === id)
+        ?.columns.find((c) => c.foreignKey?.table === tableId);
+      if (incoming?.foreignKey) {
+        return {
+          leftTable: id,
+          leftColumn: incoming.name,
+          rightColumn: incoming.foreignKey.column,
+        };
+      }
+    }
+    return {
+      leftTable: chain[chain.length - 1] || "",
+      leftColumn: "",
+      rightColumn: "",
+    };
+  };
+
+  const updateJoinStep = (index: number, patch: Partial<JoinStep>) => {
+    setQueryConfig((prev) => ({
+      ...prev,
+      joins: prev.joins.map((s, i) => (i === index ? { ...s, ...patch } : s)),
+    }));
+  };
+
+  const setJoinStepTable = (index: number, tableId: string) => {
+    const previous = queryConfig.joins[index].table;
+    const chainBefore = joinChain.slice(0, index + 1);
+    setQueryConfig((prev) => ({
+      ...pruneTableRefs(prev, previous),
+      joins: prev.joins.map((s, i) => {
+        if (i === index) {
+          return {
+            ...s,
+            table: tableId,
+            keys: [suggestJoinKey(chainBefore, tableId)],
+          };
+        }
+        // Later steps can't keep referencing the table that was swapped out
+        return i > index
+          ? {
+              ...s,
+              keys: s.keys.map((k) =>
+                k.leftTable === previous
+                  ? { ...k, leftTable: "", leftColumn: "" }
+                  : k
+              ),
+            }
+          : s;
+      }),
+    }));
+  };
+
+  const addJoinStep = () => {
+    setQueryConfig((prev) => ({
+      ...prev,
+      joins: [
+        ...prev.joins,
+        {
+          table: "",
+          type: "inner",
+          keys: [
+            {
+              leftTable: joinChain[joinChain.length - 1] || "",
+              leftColumn: "",
+              rightColumn: "",
+            },
+          ],
+        },
+      ],
+    }));
+  };
+
+  const removeJoinStep = (index: number) => {
+    const removed = queryConfig.joins[index].table;
+    setQueryConfig((prev) => ({
+      ...pruneTableRefs(prev, removed),
+      joins: prev.joins
+        .filter((_, i) => i !== index)
+        .map((s) => ({
+          ...s,
+          keys: s.keys.map((k) =>
+            k.leftTable === removed
+              ? { ...k, leftTable: "", leftColumn: "" }
+              : k
+          ),
+        })),
+    }));
+  };
+
+  const updateJoinKey = (
+    stepIndex: number,
+    keyIndex: number,
+    patch: Partial<JoinKeyPair>
+  ) => {
+    const step = queryConfig.joins[stepIndex];
+    updateJoinStep(stepIndex, {
+      keys: step.keys.map((k, i) => (i === keyIndex ? { ...k, ...patch } : k)),
+    });
+  };
+
+  const addJoinKey = (stepIndex: number) => {
+    const step = queryConfig.joins[stepIndex];
+    updateJoinStep(stepIndex, {
+      keys: [
+        ...step.keys,
+        {
+          leftTable: step.keys[0]?.leftTable || "",
+          leftColumn: "",
+          rightColumn: "",
+        },
+      ],
+    });
+  };
+
+  const removeJoinKey = (stepIndex: number, keyIndex: number) => {
+    const step = queryConfig.joins[stepIndex];
+    updateJoinStep(stepIndex, {
+      keys: step.keys.filter((_, i) => i !== keyIndex),
+    });
+  };
+
+  // --- Query Builder (columns, filters, grouping, ordering) ---
+
+  const queryColumnOptions = joinChain.flatMap((id) =>
+    (tables.find((t) => t.id === id)?.columns || []).map((c) => ({
+      table: id,
+      column: c.name,
+    }))
+  );
+
+  const updateQuery = (patch: Partial<QueryRequest>) => {
+    setQueryConfig((prev) => ({ ...prev, ...patch }));
+  };
+
+  const renderColumnPicker = (
+    value: ColumnRef,
+    onChange: (ref: { table: string; column: string }) => void,
+    allowStar = false
+  ) => (
+    <Select
+      size="small"
+      displayEmpty
+      value={refKey(value)}
+      onChange={(e: SelectChangeEvent) => onChange(parseRefKey(e.target.value))}
+      sx={{ minWidth: 200 }}
+    >
+      <MenuItem value="">
+        <em>Column</em>
+      </MenuItem>
+      {allowStar && queryConfig.baseTable && (
+        <MenuItem value={`${queryConfig.baseTable}.*`}>* (all rows)</MenuItem>
+      )}
+      {queryColumnOptions.map((opt) => (
+        <MenuItem key={refKey(opt)} value={refKey(opt)}>
+          {refKey(opt)}
+        </MenuItem>
+      ))}
+    </Select>
+  );
+
+  const renderAggregatePicker = (
+    value: Aggregate | null | undefined,
+    onChange: (agg: Aggregate | null) => void
+  ) => (
+    <Select
+      size="small"
+      displayEmpty
+      value={value || ""}
+      onChange={(e: SelectChangeEvent) =>
+        onChange((e.target.value as Aggregate) || null)
+      }
+      sx={{ minWidth: 100 }}
+    >
+      <MenuItem value="">
+        <em>—</em>
+      </MenuItem>
+      {Object.entries(AGGREGATE_LABELS).map(([agg, label]) => (
+        <MenuItem key={agg} value={agg}>
+          {label}
+        </MenuItem>
+      ))}
+    </Select>
+  );
+
+  // WHERE and HAVING share this editor; HAVING also gets aggregate pickers
+  const renderConditionGroup = (
+    group: ConditionGroup,
+    onChange: (group: ConditionGroup) => void,
+    allowAggregate: boolean,
+    depth = 0
+  ): React.ReactNode => {
+    const updateCondition = (index: number, patch: Partial<Condition>) =>
+      onChange({
+        ...group,
+        conditions: group.conditions.map((c, i) =>
+          i === index ? { ...c, ...patch } : c
+        ),
+      });
+
+    return (
+      <Paper
+        variant="outlined"
+        sx={{ p: 1.5, flex: 1, bgcolor: depth % 2 ? "#fff" : "grey.50" }}
+      >
+        <Stack spacing={1}>
+          <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+            <Select
+              size="small"
+              value={group.combinator}
+              onChange={(e: SelectChangeEvent) =>
+                onChange({
+                  ...group,
+                  combinator: e.target.value as ConditionGroup["combinator"],
+                })
+              }
             >
-              <StorageIcon sx={{ color: "#fff", fontSize: 20 }} />
-            </Box>
-            <Typography
-              variant="subtitle1"
-              sx={{ fontWeight: 700, color: "#fff", letterSpacing: 0.5 }}
+              <MenuItem value="and">Match ALL (AND)</MenuItem>
+              <MenuItem value="or">Match ANY (OR)</MenuItem>
+            </Select>
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() =>
+                onChange({
+                  ...group,
+                  conditions: [
+                    ...group.conditions,
+                    {
+                      table: "",
+                      column: "",
+                      operator: "eq",
+                      value: "",
+                      aggregate: allowAggregate ? "count" : null,
+                    },
+                  ],
+                })
+              }
             >
-              DB Architect
-            </Typography>
+              Condition
+            </Button>
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() =>
+                onChange({
+                  ...group,
+                  groups: [...group.groups, emptyConditionGroup()],
+                })
+              }
+            >
+              Group
+            </Button>
           </Box>
 
-          <Box sx={{ px: 2, py: 2 }}>
+          {group.conditions.map((cond, i) => (
             <Box
+              key={i}
               sx={{
                 display: "flex",
+                alignItems: "center",
                 gap: 1,
-                bgcolor: "#2c343d",
-                p: 0.5,
-                borderRadius: 1,
-                mb: 3,
+                flexWrap: "wrap",
               }}
             >
-              <Button
-                fullWidth
+              {allowAggregate &&
+                renderAggregatePicker(cond.aggregate, (aggregate) =>
+                  updateCondition(i, { aggregate })
+                )}
+              {renderColumnPicker(
+                cond,
+                (ref) => updateCondition(i, ref),
+                allowAggregate && cond.aggregate === "count"
+              )}
+              <Select
                 size="small"
-                startIcon={<TableChartIcon />}
-                onClick={() => setViewMode("data")}
-                sx={{
-                  color: viewMode === "data" ? "#fff" : "grey.500",
-                  bgcolor: viewMode === "data" ? "primary.main" : "transparent",
-                  "&:hover": {
-                    bgcolor:
-                      viewMode === "data"
-                        ? "primary.dark"
-                        : "rgba(255,255,255,0.05)",
-                  },
-                }}
+                value={cond.operator}
+                onChange={(e: SelectChangeEvent) =>
+                  updateCondition(i, { operator: e.target.value as Operator })
+                }
+                sx={{ minWidth: 90 }}
               >
-                Data
-              </Button>
-              <Button
-                fullWidth
+                {Object.entries(OPERATOR_LABELS).map(([op, label]) => (
+                  <MenuItem key={op} value={op}>
+                    {label}
+                  </MenuItem>
+                ))}
+              </Select>
+              {cond.operator !== "is_null" &&
+                cond.operator !== "is_not_null" && (
+                  <TextField
+                    size="small"
+                    placeholder={cond.operator === "in" ? "a, b, c" : "Value"}
+                    value={cond.value ?? ""}
+                    onChange={(e) =>
+                      updateCondition(i, { value: e.target.value })
+                    }
+                  />
+                )}
+              <IconButton
                 size="small"
-                startIcon={<MergeTypeIcon />}
-                onClick={() => setViewMode("query")}
-                sx={{
-                  color: viewMode === "query" ? "#fff" : "grey.500",
-                  bgcolor:
-                    viewMode === "query" ? "primary.main" : "transparent",
-                  "&:hover": {
-                    bgcolor:
-                      viewMode === "query"
-                        ? "primary.dark"
-                        : "rgba(255,255,255,0.05)",
-                  },
-                }}
+                onClick={() =>
+                  onChange({
+                    ...group,
+                    conditions: group.conditions.filter((_, j) => j !== i),
+                  })
+                }
               >
-                Query
-              </Button>
+                <DeleteIcon fontSize="small" />
+              </IconButton>
             </Box>
+          ))}
 
-            {viewMode === "data" && (
-              <>
-                <Box
-                  sx={{
-                    display: "flex",
-                    justifyContent: "space-between",
-                    alignItems: "center",
-                    mb: 1,
-                    px: 1,
-                  }}
-                >
-                  <Typography
-                    variant="caption"
+          {group.groups.map((sub, i) => (
+            <Box
+              key={`group-${i}`}
+              sx={{ display: "flex", alignItems: "flex-start", gap: 1 }}
+            >
+              {renderConditionGroup(
+                sub,
+                (next) =>
+                  onChange({
+                    ...group,
+                    groups: group.groups.map((g, j) => (j === i ? next : g)),
+                  }),
+                allowAggregate,
+                depth + 1
+              )}
+              <IconButton
+                size="small"
+                onClick={() =>
+                  onChange({
+                    ...group,
+                    groups: group.groups.filter((_, j) => j !== i),
+                  })
+                }
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+        </Stack>
+      </Paper>
+    );
+  };
+
+  // Read-only grid shared by the query builder and the SQL console
+  const renderResultsTable = (
+    columns: string[],
+    rows: Row[],
+    emptyMessage: string
+  ) => (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          {columns.map((key) => (
+            <TableCell
+              key={key}
+              sx={{
+                fontWeight: "bold",
+                bgcolor: "#fff",
+                whiteSpace: "nowrap",
+              }}
+            >
+              {key.includes(".") ? (
+                <>
+                  <Box
+                    component="span"
                     sx={{
-                      fontWeight: "bold",
-                      color: "grey.600",
-                      textTransform: "uppercase",
+                      color: "text.secondary",
+                      fontWeight: 400,
                     }}
                   >
-                    Tables
-                  </Typography>
-                  <IconButton
-                    size="small"
-                    sx={{ color: "primary.light" }}
-                    onClick={() => setIsTableModalOpen(true)}
-                  >
-                    <AddIcon fontSize="small" />
-                  </IconButton>
-                </Box>
-
-                <List dense sx={{ p: 0 }}>
-                  {tables.map((table) => (
-                    <ListItem
-                      key={table.id}
-                      disablePadding
-                      secondaryAction={
-                        <IconButton
-                          edge="end"
-                          size="small"
-                          onClick={(e) => deleteTable(e, table.id)}
-                          sx={{
-                            color: "grey.600",
-                            "&:hover": { color: "error.main" },
-                          }}
-                        >
-                          <DeleteIcon fontSize="small" />
-                        </IconButton>
-                      }
-                      sx={{
-                        mb: 0.5,
-                        borderRadius: 1,
-                        bgcolor:
-                          activeTableId === table.id
-                            ? "rgba(25, 118, 210, 0.15)"
-                            : "transparent",
-                        border:
-                          activeTableId === table.id
-                            ? "1px solid rgba(25, 118, 210, 0.3)"
-                            : "1px solid transparent",
-                      }}
-                    >
-                      <ListItemButton
-                        onClick={() => setActiveTableId(table.id)}
-                        sx={{ borderRadius: 1 }}
-                      >
-                        <ListItemIcon sx={{ minWidth: 32 }}>
-                          <TableChartIcon
-                            sx={{
-                              fontSize: 18,
-                              color:
-                                activeTableId === table.id
-                                  ? "primary.light"
-                                  : "grey.600",
-                            }}
-                          />
-                        </ListItemIcon>
-                        <ListItemText
-                          primary={table.name}
-                          primaryTypographyProps={{
-                            fontSize: "0.875rem",
-                            fontWeight: activeTableId === table.id ? 600 : 400,
-                            color:
-                              activeTableId === table.id
-                                ? "primary.light"
-                                : "grey.400",
-                          }}
-                        />
-                      </ListItemButton>
-                    </ListItem>
-                  ))}
-                  {tables.length === 0 && !api.loading && (
+                    {key.slice(0, key.indexOf(".") + 1)}
+                  </Box>
+                  {key.slice(key.indexOf(".") + 1)}
+                </>
+              ) : (
+                key
+              )}
+            </TableCell>
+          ))}
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {rows.length > 0 ? (
+          rows.map((row, i) => (
+            <TableRow key={i} hover>
+              {columns.map((key) => (
+                <TableCell key={key}>
+                  {row[key] !== undefined && row[key] !== null ? (
+                    formatCellValue(row[key])
+                  ) : (
                     <Typography
                       variant="caption"
-                      sx={{ color: "grey.600", p: 2, fontStyle: "italic" }}
+                      sx={{ fontStyle: "italic", color: "text.disabled" }}
                     >
-                      No tables found.
+                      NULL
                     </Typography>
                   )}
-                </List>
-              </>
-            )}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))
+        ) : (
+          <TableRow>
+            <TableCell
+              colSpan={Math.max(columns.length, 1)}
+              align="center"
+              sx={{ py: 4 }}
+            >
+              <Typography variant="body2" color="text.secondary">
+                {emptyMessage}
+              </Typography>
+            </TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  );
 
-            {viewMode === "query" && (
-              <Box sx={{ p: 2, color: "grey.500" }}>
-                <Typography variant="body2" gutterBottom>
-                  Query Builder Active
-                </Typography>
-                <Typography variant="caption">
-                  Select two tables to visualize an INNER JOIN operation.
-                </Typography>
-              </Box>
-            )}
-          </Box>
+  const joinColumns =
+    joinResultColumns.length > 0
+      ? joinResultColumns
+      : joinResults.length > 0
+      ? Object.keys(joinResults[0])
+      : [];
 
-          <Box sx={{ mt: "auto", p: 2, borderTop: "1px solid #333" }}>
-            <Paper
-              sx={{ bgcolor: "#2c343d", p: 2, borderRadius: 1 }}
-              elevation={0}
-            >
-              <Stack spacing={1}>
-                <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
-                  <Box
-                    sx={{
-                      width: 8,
-                      height: 8,
-                      bgcolor: api.error ? "error.main" : "success.main",
-                      borderRadius: "50%",
-                    }}
-                  />
-                  <Typography variant="caption" sx={{ color: "grey.300" }}>
-                    API:{" "}
-                    {api.loading
-                      ? "Loading..."
-                      : api.error
-                      ? "Error"
-                      : "Connected"}
-                  </Typography>
-                </Box>
-              </Stack>
-            </Paper>
-          </Box>
-        </Paper>
+  // --- Input Renderer for Dynamic Types ---
+  const renderInput = (col: ColumnDef) => {
+    const val =
+      newRowData[col.name] !== undefined && newRowData[col.name] !== null
+        ? newRowData[col.name]
+        : "";
+    const isPK = col.isPrimary && editingRowKey === null;
+    const required = col.nullable === false && !col.default && !isPK;
+    const fieldError = rowFieldErrors[col.name];
+    const error = !!fieldError;
+    const helperText =
+      fieldError ||
+      (editingRowKey === null && col.default && !isPK
+        ? `Default: ${col.default}`
+        : undefined);
 
-        {/* Main Content */}
-        <Box
-          sx={{
-            flex: 1,
-            display: "flex",
-            flexDirection: "column",
-            minWidth: 0,
-            bgcolor: "#f5f5f5",
-          }}
-        >
-          {/* Header */}
-          <Paper
-            square
-            elevation={0}
-            sx={{
-              px: 3,
-              height: 64,
-              display: "flex",
-              alignItems: "center",
-              justifyContent: "space-between",
-              borderBottom: "1px solid",
-              borderColor: "grey.300",
-              bgcolor: "#fff",
-            }}
+    const badges = (
+      <Box sx={{ display: "flex", gap: 0.5 }}>
+        {col.isPrimary && (
+          <KeyIcon fontSize="small" sx={{ color: "warning.light" }} />
+        )}
+        {col.foreignKey && (
+          <Tooltip
+            title={`References ${col.foreignKey.table}.${col.foreignKey.column}`}
           >
-            {viewMode === "data" ? (
-              <>
-                <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
-                  <Typography
-                    variant="h6"
-                    sx={{ fontWeight: 700, color: "text.primary" }}
-                  >
-                    {activeTable ? activeTable.name : "No Table Selected"}
-                  </Typography>
-                  {activeTable && (
-                    <Chip
-                      label={`${activeTable.rows.length} rows`}
-                      size="small"
-                      sx={{ bgcolor: "grey.100" }}
-                    />
-                  )}
-                </Box>
-                <Box sx={{ display: "flex", gap: 1 }}>
-                  <Button
-                    variant="outlined"
-                    startIcon={<ViewColumnIcon />}
-                    disabled={!activeTable || api.loading}
-                    onClick={() => setIsColumnModalOpen(true)}
-                  >
-                    Add Column
-                  </Button>
-                  <Button
-                    variant="contained"
-                    startIcon={<AddIcon />}
-                    disabled={!activeTable || api.loading}
-                    onClick={openAddRowModal}
-                  >
-                    Insert Row
-                  </Button>
-                </Box>
-              </>
-            ) : (
-              <Typography
-                variant="h6"
-                sx={{
-                  fontWeight: 700,
-                  color: "text.primary",
-                  display: "flex",
-                  alignItems: "center",
-                  gap: 1,
-                }}
-              >
-                <MergeTypeIcon color="primary" /> Join Simulator
-              </Typography>
+            <LinkIcon fontSize="small" sx={{ color: "info.light" }} />
+          </Tooltip>
+        )}
+        {col.isUnique && (
+          <Tooltip title="Unique">
+            <UniqueIcon fontSize="small" sx={{ color: "secondary.light" }} />
+          </Tooltip>
+        )}
+      </Box>
+    );
+
+    // 0. Foreign Key (Searchable Picker)
+    if (col.foreignKey) {
+      const fk = col.foreignKey;
+      const options = fkOptions[col.name] || [];
+      const selected =
+        val === ""
+          ? null
+          : options.find((o) => String(o.value) === String(val)) || {
+              value: val,
+              label: null,
+            };
+
+      return (
+        <Box key={col.name} sx={{ display: "flex", gap: 1 }}>
+          <Autocomplete
+            fullWidth
+            options={options}
+            value={selected}
+            filterOptions={(x) => x}
+            isOptionEqualToValue={(o, v) => String(o.value) === String(v.value)}
+            getOptionLabel={(o) =>
+              o.label !== null && o.label !== undefined
+                ? `${o.value} — ${o.label}`
+                : String(o.value)
+            }
+            onOpen={() => loadFkOptions(col, "")}
+            onInputChange={(_, input, reason) => {
+              if (reason === "input") loadFkOptions(col, input);
+            }}
+            onChange={(_, option) =>
+              setRowValue(col.name, option ? option.value : "")
+            }
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label={col.name}
+                required={required}
+                error={error}
+                helperText={helperText || `References ${fk.table}.${fk.column}`}
+              />
             )}
-          </Paper>
+          />
+          <Tooltip title={`Open ${fk.table} row`}>
+            <span>
+              <IconButton
+                sx={{ mt: 1 }}
+                disabled={val === ""}
+                onClick={() => jumpToParentRow(col, val)}
+              >
+                <OpenInNewIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Box>
+      );
+    }
 
-          {/* Workspace */}
-          <Box sx={{ flex: 1, display: "flex", overflow: "hidden" }}>
-            {/* Main View Area */}
-            <Box sx={{ flex: 1, overflow: "auto", p: 3, position: "relative" }}>
-              {/* Global Error Alert */}
-              {api.error && (
-                <Alert severity="error" sx={{ mb: 2 }}>
-                  {api.error}
-                </Alert>
-              )}
+    const type = columnTypes[col.name];
 
-              {viewMode === "data" ? (
-                /* DATA TABLE VIEW */
-                activeTable ? (
-                  <TableContainer
-                    component={Paper}
-                    sx={{ boxShadow: 2, borderRadius: 2, overflow: "hidden" }}
-                  >
-                    <Table stickyHeader size="medium">
-                      <TableHead>
-                        <TableRow>
-                          {activeTable.columns.map((col) => (
-                            <TableCell
-                              key={col.name}
-                              sx={{
+    // 1. Array (Chips, one per value)
+    if (type.array) {
+      return (
+        <Autocomplete
+          key={col.name}
+          multiple
+          freeSolo
+          options={col.enumValues || []}
+          value={Array.isArray(val) ? val.map((v) => toEditText(v)) : []}
+          onChange={(_, values) => setRowValue(col.name, values)}
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label={col.name}
+              required={required}
+              error={error}
+              helperText={
+                helperText || `${col.type}: press Enter after each value`
+              }
+            />
+          )}
+        />
+      );
+    }
+
+    // 2. Enum or Boolean (Select)
+    if (type.kind === "enum" || type.kind === "boolean") {
+      const options =
+        type.kind === "enum"
+          ? (col.enumValues || []).map((v) => ({ value: v, label: v }))
+          : [
+              { value: "true", label: "True" },
+              { value: "false", label: "False" },
+            ];
+      return (
+        <FormControl fullWidth key={col.name} required={required} error={error}>
+          <InputLabel id={`select-${col.name}`}>{col.name}</InputLabel>
+          <Select
+            labelId={`select-${col.name}`}
+            value={String(val)}
+            label={col.name}
+            onChange={(e) => setRowValue(col.name, e.target.value)}
+          >
+            <MenuItem value="">
+              <em>None</em>
+            </MenuItem>
+            {options.map((o) => (
+              <MenuItem key={o.value} value={o.value}>
+                {o.label}
+              </MenuItem>
+            ))}
+          </Select>
+          {helperText && <FormHelperText>{helperText}</FormHelperText>}
+        </FormControl>
+      );
+    }
+
+    // 3. Integer or Decimal (Number Input)
+    if (type.kind === "integer" || type.kind === "decimal") {
+      return (
+        <TextField
+          key={col.name}
+          label={col.name}
+          required={required}
+          error={error}
+          helperText={helperText}
+          type="number"
+          disabled={isPK}
+          placeholder={isPK ? "(Auto)" : ""}
+          value={val}
+          onChange={(e) => setRowValue(col.name, e.target.value)}
+          inputProps={{ step: INPUT_STEPS[type.kind] }}
+          InputProps={{ endAdornment: badges }}
+        />
+      );
+    }
+
+    // 4. Date, Time or Timestamp (Native Pickers)
+    if (
+      type.kind === "date" ||
+      type.kind === "time" ||
+      type.kind === "timestamp" ||
+      type.kind === "timestamptz"
+    ) {
+      const withZone = type.kind === "timestamptz";
+      const dateTime = withZone || type.kind === "timestamp";
+      return (
+        <TextField
+          key={col.name}
+          label={col.name}
+          required={required}
+          error={error}
+          helperText={
+            helperText || (withZone ? "In your local time zone" : undefined)
+          }
+          type={INPUT_TYPES[type.kind]}
+          value={dateTime ? toDateTimeInput(val, withZone) : val}
+          onChange={(e) =>
+            setRowValue(
+              col.name,
+              dateTime
+                ? fromDateTimeInput(e.target.value, withZone)
+                : e.target.value
+            )
+          }
+          inputProps={{ step: INPUT_STEPS[type.kind] }}
+          InputLabelProps={{ shrink: true }}
+          InputProps={{ endAdornment: badges }}
+        />
+      );
+    }
+
+    // 5. UUID (Text with a generator)
+    if (type.kind === "uuid") {
+      const invalid = val !== "" && !UUID_PATTERN.test(String(val));
+      return (
+        <TextField
+          key={col.name}
+          label={col.name}
+          required={required}
+          error={error || invalid}
+          helperText={helperText || (invalid ? "Not a valid UUID" : undefined)}
+          placeholder="xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx"
+          value={val}
+          onChange={(e) => setRowValue(col.name, e.target.value)}
+          InputProps={{
+            sx: { fontFamily: "Monospace" },
+            endAdornment: (
+              <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
+                {badges}
+                <Button
+                  size="small"
+                  onClick={() => setRowValue(col.name, crypto.randomUUID())}
+                >
+                  Generate
+                </Button>
+              </Box>
+            ),
+          }}
+        />
+      );
+    }
+
+    // 6. JSON (Multiline)
+    if (type.kind === "json") {
+      return (
+        <TextField
+          key={col.name}
+          label={col.name}
+          required={required}
+          error={error}
+          helperText={helperText}
+          multiline
+          rows={4}
+          placeholder='{"key": "value"}'
+          value={typeof val === "object" ? JSON.stringify(val, null, 2) : val}
+          onChange={(e) => setRowValue(col.name, e.target.value)}
+          InputProps={{
+            endAdornment: (
+              <Box
+                sx={{
+                  display: "flex",
+                  gap: 0.5,
+                  alignSelf: "flex-start",
+                  mt: 1,
+                }}
+              >
+                <JsonIcon fontSize="small" sx={{ color: "action.active" }} />
+              </Box>
+            ),
+          }}
+        />
+      );
+    }
+
+    // Default (Text): VARCHAR(n) counts characters, TEXT grows
+    const maxLength = type.kind === "text" ? type.length : undefined;
+    return (
+      <TextField
+        key={col.name}
+        label={col.name}
+        required={required}
+        error={error}
+        helperText={
+          helperText ||
+          (maxLength ? `${String(val).length}/${maxLength}` : undefined)
+        }
+        disabled={isPK}
+        placeholder={isPK ? "(Auto)" : ""}
+        multiline={type.base === "TEXT"}
+        maxRows={6}
+        value={val}
+        onChange={(e) => setRowValue(col.name, e.target.value)}
+        inputProps={{ maxLength }}
+        InputProps={{ endAdornment: badges }}
+      />
+    );
+  };
+
+  // Compact, type-aware editors for a grid cell (see renderInput)
+  const renderCellEditor = (col: ColumnDef) => {
+    const common = {
+      size: "small" as const,
+      variant: "standard" as const,
+      fullWidth: true,
+      autoFocus: true,
+      onBlur: () => commitCellEdit(),
+    };
+
+    if (col.foreignKey) {
+      const options = fkOptions[col.name] || [];
+      return (
+        <Autocomplete
+          size="small"
+          openOnFocus
+          options={options}
+          value={
+            cellDraft === ""
+              ? null
+              : options.find((o) => String(o.value) === cellDraft) || {
+                  value: cellDraft,
+                  label: null,
+                }
+          }
+          filterOptions={(x) => x}
+          isOptionEqualToValue={(o, v) => String(o.value) === String(v.value)}
+          getOptionLabel={(o) =>
+            o.label !== null && o.label !== undefined
+              ? `${o.value} — ${o.label}`
+              : String(o.value)
+          }
+          onInputChange={(_, input, reason) => {
+            if (reason === "input") loadFkOptions(col, input);
+          }}
+          onChange={(_, option) =>
+            commitCellEdit(option ? toEditText(option.value) : "")
+          }
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              variant="standard"
+              autoFocus
+              onBlur={() => commitCellEdit()}
+            />
+          )}
+        />
+      );
+    }
+
+    const type = columnTypes[col.name];
+    if (!type.array && (type.kind === "boolean" || type.kind === "enum")) {
+      const options =
+        type.kind === "enum" ? col.enumValues || [] : ["true", "false"];
+      return (
+        <TextField
+          {...common}
+          select
+          SelectProps={{ native: true }}
+          value={cellDraft}
+          onChange={(e) => setCellDraft(e.target.value)}
+        >
+          <option value="">NULL</option>
+          {options.map((o) => (
+            <option key={o} value={o}>
+              {o}
+            </option>
+          ))}
+        </TextField>
+      );
+    }
+
+    // Arrays are edited as Postgres array literals
+    return (
+      <TextField
+        {...common}
+        type={(!type.array && INPUT_TYPES[type.kind]) || "text"}
+        inputProps={{ step: INPUT_STEPS[type.kind] }}
+        placeholder={type.array ? "{a,b,c}" : "NULL"}
+        value={cellDraft}
+        onChange={(e) => setCellDraft(e.target.value)}
+      />
+    );
+  };
+
+  // --- Column Type Picker ---
+
+  // A column type as a DATA_TYPES entry, enum or domain, its parameters and
+  // whether it's an array; `onChange` gets the composed type
+  const renderTypeFields = (
+    type: string,
+    onChange: (type: string) => void,
+    error?: string
+  ) => {
+    const name = type.replace(/\[\]/g, "").trim();
+    const enumType = enumTypes.find((e) => e.name === name);
+    const domainType = domainTypes.find((d) => d.name === name);
+    const userType = enumType || domainType;
+    const parsed = domainType
+      ? { ...parseType(type), base: domainType.name }
+      : parseType(type, enumType?.values);
+    const known = DATA_TYPES.some((dt) => dt.base === parsed.base);
+    const update = (patch: Partial<ParsedType>) =>
+      onChange(composeType({ ...parsed, ...patch }));
+    const toSize = (text: string) =>
+      text === "" ? undefined : Math.max(0, Math.floor(Number(text)));
+
+    return (
+      <>
+        <FormControl fullWidth error={!!error}>
+          <InputLabel>Data Type</InputLabel>
+          <Select
+            value={userType ? `user:${userType.name}` : parsed.base}
+            label="Data Type"
+            onChange={(e: SelectChangeEvent) => {
+              const value = e.target.value;
+              const next = value.startsWith("user:")
+                ? value.slice("user:".length)
+                : DATA_TYPES.find((dt) => dt.base === value)?.value ?? value;
+              onChange(`${next}${parsed.array ? "[]" : ""}`);
+            }}
+          >
+            {DATA_TYPES.map((dt) => (
+              <MenuItem key={dt.base} value={dt.base}>
+                <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                  <dt.icon fontSize="small" color="action" />
+                  {dt.label} ({dt.base})
+                </Box>
+              </MenuItem>
+            ))}
+            {!known && !userType && (
+              <MenuItem value={parsed.base}>{parsed.base}</MenuItem>
+            )}
+            {enumTypes.length > 0 && <ListSubheader>Enum Types</ListSubheader>}
+            {enumTypes.map((e) => (
+              <MenuItem key={e.name} value={`user:${e.name}`}>
+                <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                  <EnumIcon fontSize="small" color="action" />
+                  {e.name}
+                  <Typography variant="caption" color="text.secondary">
+                    {e.values.join(", ")}
+                  </Typography>
+                </Box>
+              </MenuItem>
+            ))}
+            {domainTypes.length > 0 && <ListSubheader>Domains</ListSubheader>}
+            {domainTypes.map((d) => (
+              <MenuItem key={d.name} value={`user:${d.name}`}>
+                <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                  <DomainIcon fontSize="small" color="action" />
+                  {d.name}
+                  <Typography variant="caption" color="text.secondary">
+                    {d.baseType}
+                  </Typography>
+                </Box>
+              </MenuItem>
+            ))}
+          </Select>
+          {error && <FormHelperText>{error}</FormHelperText>}
+        </FormControl>
+
+        {(parsed.base === "VARCHAR" || parsed.base === "NUMERIC") && (
+          <Box sx={{ display: "flex", gap: 2 }}>
+            {parsed.base === "VARCHAR" ? (
+              <TextField
+                label="Max Length"
+                type="number"
+                size="small"
+                value={parsed.length ?? ""}
+                onChange={(e) => update({ length: toSize(e.target.value) })}
+                helperText="Empty for no limit"
+              />
+            ) : (
+              <>
+                <TextField
+                  label="Precision"
+                  type="number"
+                  size="small"
+                  value={parsed.precision ?? ""}
+                  onChange={(e) =>
+                    update({ precision: toSize(e.target.value) })
+                  }
+                  helperText="Total digits; empty for any"
+                />
+                <TextField
+                  label="Scale"
+                  type="number"
+                  size="small"
+                  disabled={parsed.precision === undefined}
+                  value={parsed.scale ?? ""}
+                  onChange={(e) => update({ scale: toSize(e.target.value) })}
+                  helperText="Digits after the point"
+                />
+              </>
+            )}
+          </Box>
+        )}
+
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={parsed.array}
+              onChange={(e) => update({ array: e.target.checked })}
+            />
+          }
+          label={`Array (a list of ${
+            userType ? userType.name : parsed.base
+          } values)`}
+        />
+      </>
+    );
+  };
+
+  // One enum or domain in the Types dialog, with its alterations
+  const renderUserType = (
+    kind: CreateTypeRequest["kind"],
+    name: string,
+    usedBy: string[],
+    details: React.ReactNode
+  ) => {
+    const values = enumTypes.find((e) => e.name === name)?.values || [];
+    const editing = typeEdit?.name === name ? typeEdit : null;
+    const KindIcon = kind === "enum" ? EnumIcon : DomainIcon;
+
+    return (
+      <Paper key={name} variant="outlined" sx={{ p: 1.5 }}>
+        <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+          <KindIcon fontSize="small" color="action" />
+          <Typography fontWeight="bold" fontFamily="Monospace">
+            {name}
+          </Typography>
+          <Chip label={kind} size="small" variant="outlined" />
+          <Box sx={{ flexGrow: 1 }} />
+          {kind === "enum" && (
+            <Tooltip title="Add Value">
+              <IconButton
+                size="small"
+                onClick={() =>
+                  setTypeEdit({ name, action: "add_value", value: "" })
+                }
+              >
+                <AddIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+          <Tooltip title="Rename Type">
+            <IconButton
+              size="small"
+              onClick={() =>
+                setTypeEdit({ name, action: "rename_type", newName: name })
+              }
+            >
+              <EditIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip
+            title={
+              usedBy.length > 0
+                ? "Change or drop the columns of this type first"
+                : "Drop Type"
+            }
+          >
+            <span>
+              <IconButton
+                size="small"
+                color="error"
+                disabled={usedBy.length > 0 || api.isLoading("dropType")}
+                onClick={() => dropUserType(name)}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Box>
+
+        {details}
+
+        <Typography variant="caption" color="text.secondary">
+          {usedBy.length > 0
+            ? `Used by ${usedBy.join(", ")}`
+            : "Not used by any column"}
+        </Typography>
+
+        {editing && (
+          <Box
+            sx={{ display: "flex", gap: 1, alignItems: "flex-start", mt: 1.5 }}
+          >
+            {editing.action === "add_value" ? (
+              <>
+                <TextField
+                  size="small"
+                  autoFocus
+                  label="New Value"
+                  value={editing.value || ""}
+                  onChange={(e) =>
+                    setTypeEdit({ ...editing, value: e.target.value })
+                  }
+                  helperText="Can't be removed from the enum later"
+                />
+                <TextField
+                  size="small"
+                  select
+                  label="Position"
+                  value={editing.before || ""}
+                  onChange={(e) =>
+                    setTypeEdit({ ...editing, before: e.target.value || null })
+                  }
+                  sx={{ minWidth: 160 }}
+                >
+                  <MenuItem value="">Last</MenuItem>
+                  {values.map((v) => (
+                    <MenuItem key={v} value={v}>
+                      Before {v}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              </>
+            ) : (
+              <TextField
+                size="small"
+                autoFocus
+                label={
+                  editing.action === "rename_type"
+                    ? "New Type Name"
+                    : `Rename ${editing.value}`
+                }
+                value={editing.newName || ""}
+                onChange={(e) =>
+                  setTypeEdit({ ...editing, newName: e.target.value })
+                }
+              />
+            )}
+            <Button
+              variant="contained"
+              size="small"
+              disabled={
+                api.isLoading("alterType") ||
+                !(editing.action === "add_value"
+                  ? editing.value
+                  : editing.newName)
+              }
+              onClick={applyTypeEdit}
+              sx={{ mt: 0.5 }}
+            >
+              {TYPE_EDIT_TITLES[editing.action]}
+            </Button>
+            <Button
+              size="small"
+              color="inherit"
+              onClick={() => setTypeEdit(null)}
+              sx={{ mt: 0.5 }}
+            >
+              Cancel
+            </Button>
+          </Box>
+        )}
+      </Paper>
+    );
+  };
+
+  // The Indexes tab: the table's indexes, and the columns lookups go
+  // through that no index supports
+  const renderIndexPanel = (table: TableResponse) => {
+    const loaded = tableIndexes?.table === table.id;
+    const indexes = loaded ? tableIndexes.indexes : [];
+
+    // Column -> why it needs an index
+    const unindexed = new Map<string, string[]>();
+    const flag = (column: string, reason: string) => {
+      if (hasSupportingIndex(indexes, column)) return;
+      unindexed.set(column, [...(unindexed.get(column) || []), reason]);
+    };
+    if (loaded) {
+      for (const col of table.columns) {
+        if (col.isForeignKey && col.foreignKey) {
+          flag(
+            col.name,
+            `Foreign key to ${col.foreignKey.table}.${col.foreignKey.column}`
+          );
+        }
+      }
+      for (const column of joinKeyColumns(queryConfig, table.id)) {
+        flag(column, "Join key in the Query Builder");
+      }
+    }
+
+    return (
+      <Stack spacing={2}>
+        {indexesError && <Alert severity="error">{indexesError}</Alert>}
+        {unindexed.size > 0 && (
+          <Alert severity="warning">
+            <Typography variant="body2" sx={{ mb: 1 }}>
+              No index leads with{" "}
+              {unindexed.size === 1 ? "this column" : "these columns"}, so
+              joining on {unindexed.size === 1 ? "it" : "them"} scans all of{" "}
+              {table.name}.
+            </Typography>
+            {[...unindexed].map(([column, reasons]) => (
+              <Box
+                key={column}
+                sx={{ display: "flex", alignItems: "center", gap: 1 }}
+              >
+                <Typography fontFamily="Monospace" fontWeight="bold">
+                  {column}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {reasons.join(" · ")}
+                </Typography>
+                <Button size="small" onClick={() => openIndexDialog([column])}>
+                  Create Index
+                </Button>
+              </Box>
+            ))}
+          </Alert>
+        )}
+
+        <TableContainer
+          component={Paper}
+          sx={{ boxShadow: 2, borderRadius: 2, overflow: "hidden" }}
+        >
+          {api.isLoading(`getIndexes:${table.id}`) && <LinearProgress />}
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                {["Name", "Columns", "Kind", "Size"].map((label) => (
+                  <TableCell
+                    key={label}
+                    sx={{ fontWeight: "bold", bgcolor: "grey.50" }}
+                  >
+                    {label}
+                  </TableCell>
+                ))}
+                <TableCell align="right" sx={{ bgcolor: "grey.50" }}>
+                  <Button
+                    size="small"
+                    startIcon={<AddIcon />}
+                    onClick={() => openIndexDialog()}
+                  >
+                    Create Index
+                  </Button>
+                </TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loaded && indexes.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} align="center" sx={{ py: 4 }}>
+                    <Typography variant="body2" color="text.secondary">
+                      {table.name} has no indexes.
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+              {indexes.map((idx) => (
+                <TableRow key={idx.name} hover>
+                  <TableCell>
+                    <Tooltip title={idx.definition}>
+                      <Typography
+                        variant="body2"
+                        fontFamily="Monospace"
+                        component="span"
+                      >
+                        {idx.name}
+                      </Typography>
+                    </Tooltip>
+                  </TableCell>
+                  <TableCell sx={{ fontFamily: "Monospace" }}>
+                    {idx.columns.join(", ")}
+                  </TableCell>
+                  <TableCell>
+                    <Box sx={{ display: "flex", gap: 0.5, flexWrap: "wrap" }}>
+                      {idx.primary ? (
+                        <Chip
+                          icon={<KeyIcon />}
+                          label="Primary key"
+                          size="small"
+                          color="primary"
+                          variant="outlined"
+                        />
+                      ) : (
+                        idx.unique && (
+                          <Chip
+                            icon={<UniqueIcon />}
+                            label="Unique"
+                            size="small"
+                            variant="outlined"
+                          />
+                        )
+                      )}
+                      <Chip label={idx.method} size="small" />
+                      {idx.predicate && (
+                        <Tooltip title={`WHERE ${idx.predicate}`}>
+                          <Chip label="Partial" size="small" color="info" />
+                        </Tooltip>
+                      )}
+                    </Box>
+                  </TableCell>
+                  <TableCell>{formatBytes(idx.sizeBytes)}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip
+                      title={
+                        idx.constraint
+                          ? `Enforces the constraint ${idx.constraint}`
+                          : "Drop Index"
+                      }
+                    >
+                      <span>
+                        <IconButton
+                          size="small"
+                          color="error"
+                          disabled={
+                            !!idx.constraint || api.isLoading("dropIndex")
+                          }
+                          onClick={() => dropTableIndex(table.id, idx)}
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Stack>
+    );
+  };
+
+  // --- Renders ---
+
+  return (
+    <>
+      <CssBaseline />
+      <Box
+        sx={{
+          display: "flex",
+          height: "100vh",
+          width: "100vw",
+          bgcolor: "grey.100",
+          overflow: "hidden",
+        }}
+      >
+        {/* Sidebar */}
+        <Paper
+          square
+          elevation={2}
+          sx={{
+            width: 260,
+            bgcolor: "#1a2027",
+            color: "grey.300",
+            display: "flex",
+            flexDirection: "column",
+            borderRight: "1px solid #333",
+            flexShrink: 0,
+          }}
+        >
+          <Box
+            sx={{
+              p: 2,
+              display: "flex",
+              alignItems: "center",
+              gap: 2,
+              borderBottom: "1px solid #333",
+            }}
+          >
+            <Box
+              sx={{
+                width: 36,
+                height: 36,
+                bgcolor: "primary.main",
+                borderRadius: 2,
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                boxShadow: "0 4px 12px rgba(0,0,0,0.5)",
+              }}
+            >
+              <StorageIcon sx={{ color: "#fff", fontSize: 20 }} />
+            </Box>
+            <Typography
+              variant="subtitle1"
+              sx={{ fontWeight: 700, color: "#fff", letterSpacing: 0.5 }}
+            >
+              DB Architect
+            </Typography>
+          </Box>
+
+          <Box sx={{ px: 2, py: 2 }}>
+            <Box
+              sx={{
+                display: "grid",
+                gridTemplateColumns: "1fr 1fr",
+                gap: 0.5,
+                bgcolor: "#2c343d",
+                p: 0.5,
+                borderRadius: 1,
+                mb: 3,
+              }}
+            >
+              <Button
+                fullWidth
+                size="small"
+                startIcon={<TableChartIcon />}
+                onClick={() => setViewMode("data")}
+                sx={{
+                  color: viewMode === "data" ? "#fff" : "grey.500",
+                  bgcolor: viewMode === "data" ? "primary.main" : "transparent",
+                  "&:hover": {
+                    bgcolor:
+                      viewMode === "data"
+                        ? "primary.dark"
+                        : "rgba(255,255,255,0.05)",
+                  },
+                }}
+              >
+                Data
+              </Button>
+              <Button
+                fullWidth
+                size="small"
+                startIcon={<MergeTypeIcon />}
+                onClick={() => setViewMode("query")}
+                sx={{
+                  color: viewMode === "query" ? "#fff" : "grey.500",
+                  bgcolor:
+                    viewMode === "query" ? "primary.main" : "transparent",
+                  "&:hover": {
+                    bgcolor:
+                      viewMode === "query"
+                        ? "primary.dark"
+                        : "rgba(255,255,255,0.05)",
+                  },
+                }}
+              >
+                Query
+              </Button>
+              <Button
+                fullWidth
+                size="small"
+                startIcon={<SchemaIcon />}
+                onClick={() => setViewMode("schema")}
+                sx={{
+                  color: viewMode === "schema" ? "#fff" : "grey.500",
+                  bgcolor:
+                    viewMode === "schema" ? "primary.main" : "transparent",
+                  "&:hover": {
+                    bgcolor:
+                      viewMode === "schema"
+                        ? "primary.dark"
+                        : "rgba(255,255,255,0.05)",
+                  },
+                }}
+              >
+                Schema
+              </Button>
+              <Button
+                fullWidth
+                size="small"
+                startIcon={<TerminalIcon />}
+                onClick={() => setViewMode("sql")}
+                sx={{
+                  color: viewMode === "sql" ? "#fff" : "grey.500",
+                  bgcolor: viewMode === "sql" ? "primary.main" : "transparent",
+                  "&:hover": {
+                    bgcolor:
+                      viewMode === "sql"
+                        ? "primary.dark"
+                        : "rgba(255,255,255,0.05)",
+                  },
+                }}
+              >
+                SQL
+              </Button>
+            </Box>
+
+            {viewMode === "data" && (
+              <>
+                <Box
+                  sx={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    alignItems: "center",
+                    mb: 1,
+                    px: 1,
+                  }}
+                >
+                  <Typography
+                    variant="caption"
+                    sx={{
+                      fontWeight: "bold",
+                      color: "grey.600",
+                      textTransform: "uppercase",
+                    }}
+                  >
+                    Tables
+                  </Typography>
+                  <IconButton
+                    size="small"
+                    sx={{ color: "primary.light" }}
+                    onClick={openTableModal}
+                  >
+                    <AddIcon fontSize="small" />
+                  </IconButton>
+                </Box>
+
+                <List dense sx={{ p: 0 }}>
+                  {tables.map((table) => (
+                    <ListItem
+                      key={table.id}
+                      disablePadding
+                      secondaryAction={
+                        <IconButton
+                          edge="end"
+                          size="small"
+                          onClick={(e) => deleteTable(e, table.id)}
+                          sx={{
+                            color: "grey.600",
+                            "&:hover": { color: "error.main" },
+                          }}
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      }
+                      sx={{
+                        mb: 0.5,
+                        borderRadius: 1,
+                        bgcolor:
+                          activeTableId === table.id
+                            ? "rgba(25, 118, 210, 0.15)"
+                            : "transparent",
+                        border:
+                          activeTableId === table.id
+                            ? "1px solid rgba(25, 118, 210, 0.3)"
+                            : "1px solid transparent",
+                      }}
+                    >
+                      <ListItemButton
+                        onClick={() => selectTable(table.id)}
+                        sx={{ borderRadius: 1 }}
+                      >
+                        <ListItemIcon sx={{ minWidth: 32 }}>
+                          <TableChartIcon
+                            sx={{
+                              fontSize: 18,
+                              color:
+                                activeTableId === table.id
+                                  ? "primary.light"
+                                  : "grey.600",
+                            }}
+                          />
+                        </ListItemIcon>
+                        <ListItemText
+                          primary={table.name}
+                          primaryTypographyProps={{
+                            fontSize: "0.875rem",
+                            fontWeight: activeTableId === table.id ? 600 : 400,
+                            color:
+                              activeTableId === table.id
+                                ? "primary.light"
+                                : "grey.400",
+                          }}
+                        />
+                      </ListItemButton>
+                    </ListItem>
+                  ))}
+                  {tables.length === 0 && !api.isLoading("getTables") && (
+                    <Typography
+                      variant="caption"
+                      sx={{ color: "grey.600", p: 2, fontStyle: "italic" }}
+                    >
+                      No tables found.
+                    </Typography>
+                  )}
+                </List>
+              </>
+            )}
+
+            {viewMode === "query" && (
+              <Box sx={{ p: 2, color: "grey.500" }}>
+                <Typography variant="body2" gutterBottom>
+                  Query Builder Active
+                </Typography>
+                <Typography variant="caption">
+                  Pick a base table, chain joins onto it, then filter, group and
+                  sort the results.
+                </Typography>
+              </Box>
+            )}
+
+            {viewMode === "schema" && (
+              <Box sx={{ p: 2, color: "grey.500" }}>
+                <Typography variant="body2" gutterBottom>
+                  Schema Designer
+                </Typography>
+                <Typography variant="caption" component="p" sx={{ mb: 1 }}>
+                  Drag table headers to arrange the diagram. The layout is saved
+                  for {databaseName || "this database"}.
+                </Typography>
+                <Typography variant="caption" component="p">
+                  Drag a column's handle onto another table to add a foreign key
+                  referencing it.
+                </Typography>
+              </Box>
+            )}
+
+            {viewMode === "sql" && (
+              <Box sx={{ p: 2, color: "grey.500" }}>
+                <Typography variant="body2" gutterBottom>
+                  SQL Console
+                </Typography>
+                <Typography variant="caption" component="p">
+                  Runs read-only by default: only queries are allowed, inside a
+                  transaction that is rolled back. Switch to write mode to run
+                  DDL or DML.
+                </Typography>
+              </Box>
+            )}
+          </Box>
+
+          <Box sx={{ mt: "auto", p: 2, borderTop: "1px solid #333" }}>
+            <Paper
+              sx={{ bgcolor: "#2c343d", p: 2, borderRadius: 1 }}
+              elevation={0}
+            >
+              <Stack spacing={1}>
+                <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                  <Box
+                    sx={{
+                      width: 8,
+                      height: 8,
+                      bgcolor: api.error ? "error.main" : "success.main",
+                      borderRadius: "50%",
+                    }}
+                  />
+                  <Typography variant="caption" sx={{ color: "grey.300" }}>
+                    API:{" "}
+                    {api.loading
+                      ? "Loading..."
+                      : api.error
+                      ? "Error"
+                      : "Connected"}
+                  </Typography>
+                </Box>
+              </Stack>
+            </Paper>
+          </Box>
+        </Paper>
+
+        {/* Main Content */}
+        <Box
+          sx={{
+            flex: 1,
+            display: "flex",
+            flexDirection: "column",
+            minWidth: 0,
+            bgcolor: "#f5f5f5",
+          }}
+        >
+          {/* Header */}
+          <Paper
+            square
+            elevation={0}
+            sx={{
+              px: 3,
+              height: 64,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              borderBottom: "1px solid",
+              borderColor: "grey.300",
+              bgcolor: "#fff",
+            }}
+          >
+            {viewMode === "data" ? (
+              <>
+                <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+                  <Typography
+                    variant="h6"
+                    sx={{ fontWeight: 700, color: "text.primary" }}
+                  >
+                    {activeTable ? activeTable.name : "No Table Selected"}
+                  </Typography>
+                  {activeTable && (
+                    <Tooltip title="Rename Table">
+                      <IconButton
+                        size="small"
+                        onClick={() =>
+                          openAlterDialog({
+                            action: "rename_table",
+                            newName: activeTable.name,
+                          })
+                        }
+                      >
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  {activeTable && (
+                    <Chip
+                      label={`${activeTable.total} rows`}
+                      size="small"
+                      sx={{ bgcolor: "grey.100" }}
+                    />
+                  )}
+                  {activeTable &&
+                    activeTable.uniqueConstraints.some(
+                      (uc) => uc.columns.length > 1
+                    ) && (
+                      <Tooltip
+                        title={activeTable.uniqueConstraints
+                          .filter((uc) => uc.columns.length > 1)
+                          .map((uc) => `UNIQUE (${uc.columns.join(", ")})`)
+                          .join(" · ")}
+                      >
+                        <Chip
+                          icon={<UniqueIcon />}
+                          label="Composite unique"
+                          size="small"
+                          variant="outlined"
+                        />
+                      </Tooltip>
+                    )}
+                  {activeTable && activeTable.checkConstraints.length > 0 && (
+                    <Tooltip
+                      title={activeTable.checkConstraints
+                        .map((cc) => `CHECK (${cc.expression})`)
+                        .join(" · ")}
+                    >
+                      <Chip
+                        icon={<CheckIcon />}
+                        label={`${activeTable.checkConstraints.length} checks`}
+                        size="small"
+                        variant="outlined"
+                      />
+                    </Tooltip>
+                  )}
+                </Box>
+                <Box sx={{ display: "flex", gap: 1 }}>
+                  {pendingEditCount > 0 && (
+                    <>
+                      <Chip
+                        color="warning"
+                        variant="outlined"
+                        label={`${pendingEditCount} unsaved ${
+                          pendingEditCount === 1 ? "change" : "changes"
+                        }`}
+                        sx={{ alignSelf: "center" }}
+                      />
+                      <Button
+                        startIcon={<UndoIcon />}
+                        disabled={api.isLoading("batchMutations")}
+                        onClick={discardCellEdits}
+                      >
+                        Discard
+                      </Button>
+                      <Button
+                        variant="contained"
+                        color="warning"
+                        startIcon={<SaveIcon />}
+                        disabled={api.isLoading("batchMutations")}
+                        onClick={saveCellEdits}
+                      >
+                        Save Changes
+                      </Button>
+                    </>
+                  )}
+                  {selectedCount > 0 && (
+                    <Button
+                      variant="outlined"
+                      color="error"
+                      startIcon={<DeleteIcon />}
+                      disabled={api.isLoading("deleteRows")}
+                      onClick={() =>
+                        openDeleteDialog(Object.values(selectedRows))
+                      }
+                    >
+                      Delete ({selectedCount})
+                    </Button>
+                  )}
+                  <Button
+                    variant="outlined"
+                    startIcon={<ViewColumnIcon />}
+                    disabled={!activeTable || api.isLoading("addColumn")}
+                    onClick={openColumnModal}
+                  >
+                    Add Column
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    startIcon={<UploadIcon />}
+                    onClick={openImportWizard}
+                  >
+                    Import
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    startIcon={<DownloadIcon />}
+                    disabled={!activeTable || api.isLoading("exportTable")}
+                    onClick={(e) =>
+                      setExportMenu({
+                        anchor: e.currentTarget,
+                        target: "table",
+                      })
+                    }
+                  >
+                    Export
+                  </Button>
+                  <Button
+                    variant="contained"
+                    startIcon={<AddIcon />}
+                    disabled={!activeTable || api.isLoading("insertRow")}
+                    onClick={openAddRowModal}
+                  >
+                    Insert Row
+                  </Button>
+                </Box>
+              </>
+            ) : (
+              <Typography
+                variant="h6"
+                sx={{
+                  fontWeight: 700,
+                  color: "text.primary",
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 1,
+                }}
+              >
+                {viewMode === "schema" ? (
+                  <>
+                    <SchemaIcon color="primary" /> Schema Designer
+                    <Button
+                      size="small"
+                      onClick={resetSchemaLayout}
+                      sx={{ ml: 2 }}
+                    >
+                      Reset Layout
+                    </Button>
+                    <Button
+                      size="small"
+                      startIcon={<DownloadIcon />}
+                      disabled={
+                        tables.length === 0 || api.isLoading("exportSchema")
+                      }
+                      onClick={(e) => setSchemaExportAnchor(e.currentTarget)}
+                    >
+                      Export Schema
+                    </Button>
+                    <Button
+                      size="small"
+                      startIcon={<UploadIcon />}
+                      onClick={openSchemaImport}
+                    >
+                      Import Schema
+                    </Button>
+                    <Button
+                      size="small"
+                      startIcon={<EnumIcon />}
+                      onClick={openTypes}
+                    >
+                      Types
+                    </Button>
+                    <Button
+                      size="small"
+                      startIcon={<HistoryIcon />}
+                      onClick={openHistory}
+                    >
+                      History
+                    </Button>
+                  </>
+                ) : viewMode === "sql" ? (
+                  <>
+                    <TerminalIcon color="primary" /> SQL Console
+                  </>
+                ) : (
+                  <>
+                    <MergeTypeIcon color="primary" /> Query Builder
+                  </>
+                )}
+              </Typography>
+            )}
+          </Paper>
+
+          {/* Workspace */}
+          <Box sx={{ flex: 1, display: "flex", overflow: "hidden" }}>
+            {/* Main View Area */}
+            <Box sx={{ flex: 1, overflow: "auto", p: 3, position: "relative" }}>
+              {/* Global Error Alert */}
+              {api.error && (
+                <Alert severity="error" sx={{ mb: 2 }}>
+                  {api.error}
+                </Alert>
+              )}
+
+              {viewMode === "data" && activeTable && (
+                <Tabs
+                  value={tableTab}
+                  onChange={(_, tab: TableTab) => setTableTab(tab)}
+                  sx={{ mb: 2, minHeight: 0 }}
+                >
+                  <Tab value="rows" label="Rows" sx={{ minHeight: 0 }} />
+                  <Tab
+                    value="indexes"
+                    label="Indexes"
+                    icon={<IndexIcon fontSize="small" />}
+                    iconPosition="start"
+                    sx={{ minHeight: 0 }}
+                  />
+                </Tabs>
+              )}
+
+              {viewMode === "data" &&
+                tableTab === "rows" &&
+                activeTable &&
+                activeTable.columns.length > 0 &&
+                !activeHasPrimaryKey && (
+                  <Alert severity="info" sx={{ mb: 2 }}>
+                    <strong>{activeTable.name}</strong> has no primary key, so
+                    its rows can't be identified for editing or deletion. Add a
+                    primary key column to enable row editing.
+                  </Alert>
+                )}
+
+              {viewMode === "data" && tableTab === "rows" && cellSaveError && (
+                <Alert
+                  severity="error"
+                  sx={{ mb: 2 }}
+                  onClose={() => setCellSaveError(null)}
+                >
+                  Nothing was saved. Row {formatRowKey(cellSaveError.key)}:{" "}
+                  {cellSaveError.message}
+                </Alert>
+              )}
+
+              {viewMode === "data" ? (
+                /* DATA TABLE VIEW */
+                activeTable && tableTab === "indexes" ? (
+                  renderIndexPanel(activeTable)
+                ) : activeTable ? (
+                  <TableContainer
+                    component={Paper}
+                    sx={{ boxShadow: 2, borderRadius: 2, overflow: "hidden" }}
+                  >
+                    <Table stickyHeader size="medium">
+                      <TableHead>
+                        <TableRow>
+                          <TableCell
+                            padding="checkbox"
+                            sx={{ bgcolor: "grey.50" }}
+                          >
+                            <Tooltip
+                              title={
+                                activeHasPrimaryKey
+                                  ? "Select page"
+                                  : "Rows can't be selected without a primary key"
+                              }
+                            >
+                              <span>
+                                <Checkbox
+                                  size="small"
+                                  disabled={
+                                    !activeHasPrimaryKey ||
+                                    activeTable.rows.length === 0
+                                  }
+                                  checked={allPageRowsSelected}
+                                  indeterminate={
+                                    somePageRowsSelected && !allPageRowsSelected
+                                  }
+                                  onChange={togglePageSelection}
+                                />
+                              </span>
+                            </Tooltip>
+                          </TableCell>
+                          {activeTable.columns.map((col) => (
+                            <TableCell
+                              key={col.name}
+                              sx={{
                                 bgcolor: "grey.50",
                                 fontWeight: "bold",
                                 color: "text.secondary",
@@ -860,39 +4694,145 @@ export default function App() {
                                     />
                                   </Tooltip>
                                 )}
-                                {col.name}
-                                <Chip
-                                  label={col.type}
-                                  size="small"
-                                  variant="outlined"
-                                  sx={{
-                                    height: 20,
-                                    fontSize: "0.65rem",
-                                    borderRadius: 1,
-                                  }}
-                                />
+                                {col.isUnique && (
+                                  <Tooltip title="Unique">
+                                    <UniqueIcon
+                                      sx={{
+                                        fontSize: 16,
+                                        color: "secondary.main",
+                                      }}
+                                    />
+                                  </Tooltip>
+                                )}
+                                <TableSortLabel
+                                  active={activeQuery.sortBy === col.name}
+                                  direction={
+                                    activeQuery.sortBy === col.name
+                                      ? activeQuery.sortDir
+                                      : "asc"
+                                  }
+                                  onClick={() => toggleSort(col.name)}
+                                >
+                                  {col.name}
+                                  {col.nullable === false && !col.isPrimary && (
+                                    <Tooltip title="NOT NULL">
+                                      <Box
+                                        component="span"
+                                        sx={{ color: "error.main", ml: 0.25 }}
+                                      >
+                                        *
+                                      </Box>
+                                    </Tooltip>
+                                  )}
+                                </TableSortLabel>
+                                <Tooltip
+                                  title={
+                                    col.default ? `Default: ${col.default}` : ""
+                                  }
+                                >
+                                  <Chip
+                                    label={col.type}
+                                    size="small"
+                                    variant="outlined"
+                                    sx={{
+                                      height: 20,
+                                      fontSize: "0.65rem",
+                                      borderRadius: 1,
+                                    }}
+                                  />
+                                </Tooltip>
+                                <Tooltip
+                                  title={
+                                    pendingEditCount > 0
+                                      ? "Save or discard your edits to alter columns"
+                                      : "Alter Column"
+                                  }
+                                >
+                                  <span>
+                                    <IconButton
+                                      size="small"
+                                      disabled={pendingEditCount > 0}
+                                      onClick={(e) =>
+                                        setColumnMenu({
+                                          anchor: e.currentTarget,
+                                          column: col,
+                                        })
+                                      }
+                                      sx={{ p: 0.25 }}
+                                    >
+                                      <MoreVertIcon sx={{ fontSize: 16 }} />
+                                    </IconButton>
+                                  </span>
+                                </Tooltip>
                               </Box>
                             </TableCell>
                           ))}
                           <TableCell
                             align="right"
-                            sx={{ bgcolor: "grey.50", width: 80 }}
+                            sx={{ bgcolor: "grey.50", width: 110 }}
                           >
                             Actions
                           </TableCell>
                         </TableRow>
+                        {/* Filter Row */}
+                        <TableRow>
+                          <TableCell
+                            padding="checkbox"
+                            sx={{ bgcolor: "grey.50" }}
+                          />
+                          {activeTable.columns.map((col) => (
+                            <TableCell
+                              key={col.name}
+                              sx={{ bgcolor: "grey.50", py: 0.5 }}
+                            >
+                              <TextField
+                                variant="standard"
+                                size="small"
+                                placeholder="Filter..."
+                                fullWidth
+                                value={activeQuery.filters?.[col.name] || ""}
+                                onChange={(e) =>
+                                  setColumnFilter(col.name, e.target.value)
+                                }
+                              />
+                            </TableCell>
+                          ))}
+                          <TableCell
+                            align="right"
+                            sx={{ bgcolor: "grey.50", py: 0.5 }}
+                          >
+                            {hasActiveFilters && (
+                              <Button
+                                size="small"
+                                onClick={() =>
+                                  updateActiveQuery({ filters: {}, page: 1 })
+                                }
+                              >
+                                Clear
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
                       </TableHead>
-                      <TableBody>
+                      <TableBody
+                        ref={gridRef}
+                        tabIndex={0}
+                        onKeyDown={handleGridKeyDown}
+                        sx={{ outline: "none" }}
+                      >
                         {activeTable.rows.length === 0 ? (
                           <TableRow>
                             <TableCell
-                              colSpan={activeTable.columns.length + 1}
+                              colSpan={activeTable.columns.length + 2}
                               align="center"
                               sx={{ py: 8 }}
                             >
                               <Typography color="text.secondary">
-                                No data found in {activeTable.name}. Insert a
-                                row to get started.
+                                {!activePage
+                                  ? `Loading ${activeTable.name}...`
+                                  : hasActiveFilters
+                                  ? `No rows in ${activeTable.name} match the current filters.`
+                                  : `No data found in ${activeTable.name}. Insert a row to get started.`}
                               </Typography>
                             </TableCell>
                           </TableRow>
@@ -901,437 +4841,2410 @@ export default function App() {
                             <TableRow
                               key={idx}
                               hover
+                              selected={!!selectedRows[pageRowIds[idx]]}
                               sx={{ "&:hover": { bgcolor: "action.hover" } }}
                             >
-                              {activeTable.columns.map((col) => (
-                                <TableCell
-                                  key={col.name}
-                                  sx={{ color: "text.primary" }}
+                              <TableCell padding="checkbox">
+                                <Checkbox
+                                  size="small"
+                                  disabled={!activeHasPrimaryKey}
+                                  checked={!!selectedRows[pageRowIds[idx]]}
+                                  onChange={() => toggleRowSelection(row)}
+                                />
+                              </TableCell>
+                              {activeTable.columns.map((col, colIdx) => {
+                                const cell = { row: idx, col: colIdx };
+                                const edit = activeEdits[pageRowIds[idx]];
+                                const isPending =
+                                  !!edit && col.name in edit.values;
+                                // A cleared value is saved as NULL
+                                const value = isPending
+                                  ? edit.values[col.name] || null
+                                  : row[col.name];
+                                const isFocused =
+                                  focusedCell?.row === idx &&
+                                  focusedCell.col === colIdx;
+                                const isEditing =
+                                  editingCell?.row === idx &&
+                                  editingCell.col === colIdx;
+                                const hasError =
+                                  cellSaveError?.rowId === pageRowIds[idx] &&
+                                  cellSaveError.column === col.name;
+
+                                return (
+                                  <TableCell
+                                    key={col.name}
+                                    onClick={() => {
+                                      if (editingCell && !isEditing) {
+                                        commitCellEdit();
+                                      }
+                                      setFocusedCell(cell);
+                                    }}
+                                    onDoubleClick={() => startCellEdit(cell)}
+                                    sx={{
+                                      color: "text.primary",
+                                      position: "relative",
+                                      cursor: activeHasPrimaryKey
+                                        ? "cell"
+                                        : undefined,
+                                      bgcolor: isPending
+                                        ? "rgba(255, 167, 38, 0.12)"
+                                        : undefined,
+                                      outline:
+                                        isFocused || hasError
+                                          ? "2px solid"
+                                          : "none",
+                                      outlineColor: hasError
+                                        ? "error.main"
+                                        : "primary.main",
+                                      outlineOffset: -2,
+                                    }}
+                                  >
+                                    {isEditing ? (
+                                      renderCellEditor(col)
+                                    ) : (
+                                      <>
+                                        {isPending && (
+                                          <Tooltip
+                                            title={`Unsaved. Was: ${
+                                              toEditText(row[col.name]) ||
+                                              "NULL"
+                                            }`}
+                                          >
+                                            <Box
+                                              sx={{
+                                                position: "absolute",
+                                                top: 0,
+                                                right: 0,
+                                                borderTop: "8px solid",
+                                                borderLeft:
+                                                  "8px solid transparent",
+                                                borderTopColor: "warning.main",
+                                              }}
+                                            />
+                                          </Tooltip>
+                                        )}
+                                        {value !== undefined &&
+                                        value !== null ? (
+                                          renderCellValue(
+                                            value,
+                                            columnTypes[col.name]
+                                          )
+                                        ) : (
+                                          <Typography
+                                            variant="caption"
+                                            sx={{
+                                              fontStyle: "italic",
+                                              color: "text.disabled",
+                                            }}
+                                          >
+                                            NULL
+                                          </Typography>
+                                        )}
+                                      </>
+                                    )}
+                                  </TableCell>
+                                );
+                              })}
+                              <TableCell align="right">
+                                <IconButton
+                                  size="small"
+                                  disabled={!activeHasPrimaryKey}
+                                  onClick={() => openEditRowModal(row)}
+                                  color="primary"
                                 >
-                                  {row[col.name] !== undefined &&
-                                  row[col.name] !== null ? (
-                                    String(row[col.name])
-                                  ) : (
-                                    <Typography
-                                      variant="caption"
-                                      sx={{
-                                        fontStyle: "italic",
-                                        color: "text.disabled",
-                                      }}
+                                  <EditIcon fontSize="small" />
+                                </IconButton>
+                                <IconButton
+                                  size="small"
+                                  disabled={!activeHasPrimaryKey}
+                                  onClick={() => openDeleteDialog([row])}
+                                  sx={{ "&:hover": { color: "error.main" } }}
+                                >
+                                  <DeleteIcon fontSize="small" />
+                                </IconButton>
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                    <TablePagination
+                      component="div"
+                      count={activeTable.total}
+                      page={activeQuery.page - 1}
+                      rowsPerPage={activeQuery.pageSize}
+                      rowsPerPageOptions={PAGE_SIZE_OPTIONS}
+                      onPageChange={(_, newPage) =>
+                        updateActiveQuery({ page: newPage + 1 })
+                      }
+                      onRowsPerPageChange={(e) =>
+                        updateActiveQuery({
+                          pageSize: parseInt(e.target.value, 10),
+                          page: 1,
+                        })
+                      }
+                      sx={{ borderTop: 1, borderColor: "divider" }}
+                    />
+                  </TableContainer>
+                ) : (
+                  <Box
+                    sx={{
+                      height: "100%",
+                      display: "flex",
+                      flexDirection: "column",
+                      alignItems: "center",
+                      justifyContent: "center",
+                      opacity: 0.6,
+                    }}
+                  >
+                    <StorageIcon
+                      sx={{ fontSize: 64, color: "grey.300", mb: 2 }}
+                    />
+                    <Typography variant="h6" color="text.secondary">
+                      Select a table to view data
+                    </Typography>
+                    <Button
+                      variant="contained"
+                      sx={{ mt: 2 }}
+                      onClick={openTableModal}
+                    >
+                      Create Table
+                    </Button>
+                  </Box>
+                )
+              ) : viewMode === "schema" ? (
+                /* SCHEMA DESIGNER VIEW */
+                <Paper
+                  ref={schemaCanvasRef}
+                  elevation={1}
+                  sx={{
+                    position: "relative",
+                    minWidth: "100%",
+                    minHeight: "100%",
+                    width: schemaCanvasSize.width,
+                    height: schemaCanvasSize.height,
+                    borderRadius: 2,
+                    backgroundImage:
+                      "radial-gradient(circle, #d0d0d0 1px, transparent 1px)",
+                    backgroundSize: "20px 20px",
+                    userSelect: "none",
+                  }}
+                >
+                  <svg
+                    style={{
+                      position: "absolute",
+                      inset: 0,
+                      width: "100%",
+                      height: "100%",
+                      pointerEvents: "none",
+                    }}
+                  >
+                    <defs>
+                      <marker
+                        id="fk-arrow"
+                        viewBox="0 0 10 10"
+                        refX="10"
+                        refY="5"
+                        markerWidth="8"
+                        markerHeight="8"
+                        orient="auto-start-reverse"
+                      >
+                        <path d="M 0 0 L 10 5 L 0 10 z" fill="#0288d1" />
+                      </marker>
+                    </defs>
+                    {schemaEdges.map((edge) => (
+                      <path
+                        key={edge.id}
+                        d={edge.path}
+                        fill="none"
+                        stroke="#0288d1"
+                        strokeWidth={1.5}
+                        markerEnd="url(#fk-arrow)"
+                      >
+                        <title>{edge.label}</title>
+                      </path>
+                    ))}
+                    {linkDrag && (
+                      <line
+                        x1={linkDrag.from.x}
+                        y1={linkDrag.from.y}
+                        x2={linkDrag.to.x}
+                        y2={linkDrag.to.y}
+                        stroke="#0288d1"
+                        strokeWidth={2}
+                        strokeDasharray="6 4"
+                      />
+                    )}
+                  </svg>
+
+                  {tables.map((table, i) => {
+                    const pos = nodePosition(table.id, i);
+                    const isDropTarget =
+                      linkDrag !== null && linkDrag.table !== table.id;
+                    return (
+                      <Paper
+                        key={table.id}
+                        elevation={3}
+                        onPointerUp={() => dropLinkOnTable(table.id)}
+                        sx={{
+                          position: "absolute",
+                          left: pos.x,
+                          top: pos.y,
+                          width: SCHEMA_NODE_WIDTH,
+                          borderRadius: 1,
+                          overflow: "hidden",
+                          outline: isDropTarget ? "2px dashed" : "none",
+                          outlineColor: "info.main",
+                        }}
+                      >
+                        <Box
+                          onPointerDown={(e) => startNodeDrag(e, table.id, i)}
+                          onDoubleClick={() => {
+                            selectTable(table.id);
+                            setViewMode("data");
+                          }}
+                          sx={{
+                            height: SCHEMA_HEADER_HEIGHT,
+                            px: 1.5,
+                            display: "flex",
+                            alignItems: "center",
+                            gap: 1,
+                            bgcolor: "#1a2027",
+                            color: "#fff",
+                            cursor: "grab",
+                          }}
+                        >
+                          <TableChartIcon sx={{ fontSize: 16 }} />
+                          <Typography variant="subtitle2" noWrap>
+                            {table.name}
+                          </Typography>
+                        </Box>
+                        {table.columns.map((col) => (
+                          <Box
+                            key={col.name}
+                            sx={{
+                              height: SCHEMA_ROW_HEIGHT,
+                              px: 1.5,
+                              display: "flex",
+                              alignItems: "center",
+                              gap: 0.75,
+                              fontSize: "0.8rem",
+                              borderTop: "1px solid",
+                              borderColor: "grey.200",
+                            }}
+                          >
+                            {col.isPrimary && (
+                              <KeyIcon
+                                sx={{ fontSize: 14, color: "warning.main" }}
+                              />
+                            )}
+                            {col.foreignKey && (
+                              <LinkIcon
+                                sx={{ fontSize: 14, color: "info.main" }}
+                              />
+                            )}
+                            <Box
+                              sx={{
+                                flex: 1,
+                                overflow: "hidden",
+                                textOverflow: "ellipsis",
+                                whiteSpace: "nowrap",
+                                fontWeight: col.isPrimary ? 600 : 400,
+                              }}
+                            >
+                              {col.name}
+                            </Box>
+                            <Typography
+                              variant="caption"
+                              color="text.secondary"
+                              noWrap
+                              sx={{ maxWidth: 90 }}
+                            >
+                              {col.type}
+                            </Typography>
+                            <Tooltip title="Drag onto another table to reference this column">
+                              <Box
+                                onPointerDown={(e) =>
+                                  startLinkDrag(e, table, col)
+                                }
+                                sx={{
+                                  width: 10,
+                                  height: 10,
+                                  flexShrink: 0,
+                                  borderRadius: "50%",
+                                  bgcolor: "info.light",
+                                  cursor: "crosshair",
+                                }}
+                              />
+                            </Tooltip>
+                          </Box>
+                        ))}
+                      </Paper>
+                    );
+                  })}
+
+                  {tables.length === 0 && (
+                    <Typography
+                      color="text.secondary"
+                      sx={{ p: 4, textAlign: "center" }}
+                    >
+                      No tables yet. Create one to start designing.
+                    </Typography>
+                  )}
+                </Paper>
+              ) : viewMode === "sql" ? (
+                /* SQL CONSOLE VIEW */
+                <Stack spacing={3}>
+                  <Paper sx={{ p: 2, borderRadius: 2 }} elevation={1}>
+                    <Box
+                      sx={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: 2,
+                        mb: 1.5,
+                      }}
+                    >
+                      <FormControlLabel
+                        control={
+                          <Switch
+                            color="warning"
+                            checked={sqlMode === "write"}
+                            onChange={(e) =>
+                              setSqlMode(e.target.checked ? "write" : "read")
+                            }
+                          />
+                        }
+                        label={sqlMode === "write" ? "Write mode" : "Read-only"}
+                      />
+                      <Box sx={{ flex: 1 }} />
+                      <Typography variant="caption" color="text.secondary">
+                        Ctrl+Enter to run
+                      </Typography>
+                      <Button
+                        variant="contained"
+                        color={sqlMode === "write" ? "warning" : "primary"}
+                        startIcon={<PlayArrowIcon />}
+                        disabled={
+                          !sqlText.trim() || api.isLoading("executeSql")
+                        }
+                        onClick={runSql}
+                      >
+                        Run
+                      </Button>
+                    </Box>
+                    {sqlMode === "write" && (
+                      <Alert severity="warning" sx={{ mb: 1.5 }}>
+                        Write mode is on. INSERT, UPDATE, DELETE and DDL
+                        statements are committed immediately.
+                      </Alert>
+                    )}
+                    <Box
+                      sx={{
+                        position: "relative",
+                        height: 240,
+                        borderRadius: 1,
+                        bgcolor: "#1e1e1e",
+                        fontFamily: "Monospace",
+                        fontSize: "0.875rem",
+                        lineHeight: 1.5,
+                      }}
+                    >
+                      {/* Highlighted copy underneath a transparent textarea */}
+                      <Box
+                        component="pre"
+                        ref={sqlHighlightRef}
+                        aria-hidden
+                        sx={{
+                          position: "absolute",
+                          inset: 0,
+                          m: 0,
+                          p: 1.5,
+                          overflow: "hidden",
+                          whiteSpace: "pre-wrap",
+                          wordBreak: "break-word",
+                          color: "#d4d4d4",
+                          font: "inherit",
+                          pointerEvents: "none",
+                        }}
+                      >
+                        {highlightSql(sqlText)}
+                        {"\n"}
+                      </Box>
+                      <textarea
+                        value={sqlText}
+                        spellCheck={false}
+                        onChange={(e) => setSqlText(e.target.value)}
+                        onScroll={(e) => {
+                          if (sqlHighlightRef.current) {
+                            sqlHighlightRef.current.scrollTop =
+                              e.currentTarget.scrollTop;
+                          }
+                        }}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+                            e.preventDefault();
+                            runSql();
+                          }
+                        }}
+                        style={{
+                          position: "absolute",
+                          inset: 0,
+                          width: "100%",
+                          height: "100%",
+                          margin: 0,
+                          padding: 12,
+                          border: 0,
+                          outline: "none",
+                          resize: "none",
+                          background: "transparent",
+                          color: "transparent",
+                          caretColor: "#fff",
+                          font: "inherit",
+                          whiteSpace: "pre-wrap",
+                          wordBreak: "break-word",
+                          overflow: "auto",
+                        }}
+                      />
+                    </Box>
+                  </Paper>
+
+                  {sqlResult && (
+                    <TableContainer
+                      component={Paper}
+                      elevation={1}
+                      sx={{ borderRadius: 2 }}
+                    >
+                      <Box
+                        sx={{
+                          p: 2,
+                          bgcolor: "grey.50",
+                          borderBottom: 1,
+                          borderColor: "divider",
+                          display: "flex",
+                          alignItems: "center",
+                          gap: 1,
+                        }}
+                      >
+                        <Typography
+                          variant="subtitle2"
+                          fontWeight="bold"
+                          sx={{ flex: 1 }}
+                        >
+                          {sqlResult.statement || "Result"}
+                        </Typography>
+                        {sqlResult.truncated && (
+                          <Chip
+                            label={`First ${sqlResult.rows.length} rows shown`}
+                            size="small"
+                            color="warning"
+                          />
+                        )}
+                        <Chip
+                          label={
+                            sqlResult.columns.length > 0
+                              ? `${sqlResult.rows.length} rows`
+                              : `${sqlResult.rowCount} affected`
+                          }
+                          size="small"
+                        />
+                        <Chip
+                          label={`${sqlResult.durationMs} ms`}
+                          size="small"
+                        />
+                      </Box>
+                      {sqlResult.columns.length > 0 ? (
+                        renderResultsTable(
+                          sqlResult.columns,
+                          sqlResult.rows,
+                          "The query returned no rows."
+                        )
+                      ) : (
+                        <Typography
+                          variant="body2"
+                          color="text.secondary"
+                          sx={{ p: 3 }}
+                        >
+                          Statement executed.{" "}
+                          {sqlResult.rowCount >= 0 &&
+                            `${sqlResult.rowCount} row(s) affected.`}
+                        </Typography>
+                      )}
+                    </TableContainer>
+                  )}
+                </Stack>
+              ) : (
+                /* QUERY BUILDER VIEW */
+                <Stack spacing={4}>
+                  <Paper sx={{ p: 3, borderRadius: 2 }} elevation={1}>
+                    <Stack spacing={2}>
+                      <FormControl size="small" sx={{ maxWidth: 260 }}>
+                        <InputLabel>Base Table</InputLabel>
+                        <Select
+                          value={queryConfig.baseTable}
+                          label="Base Table"
+                          onChange={(e: SelectChangeEvent) =>
+                            setQueryConfig({
+                              ...EMPTY_QUERY,
+                              baseTable: e.target.value,
+                            })
+                          }
+                        >
+                          {tables.map((t) => (
+                            <MenuItem key={t.id} value={t.id}>
+                              {t.name}
+                            </MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+
+                      {queryConfig.joins.map((step, stepIdx) => {
+                        const earlierTables = joinChain.slice(0, stepIdx + 1);
+                        const stepTable = tables.find(
+                          (t) => t.id === step.table
+                        );
+                        return (
+                          <Paper
+                            key={stepIdx}
+                            variant="outlined"
+                            sx={{ p: 2, bgcolor: "grey.50" }}
+                          >
+                            <Stack
+                              direction="row"
+                              alignItems="center"
+                              spacing={2}
+                              flexWrap="wrap"
+                            >
+                              <ArrowRightIcon color="primary" />
+                              <Select
+                                size="small"
+                                value={step.type}
+                                onChange={(e: SelectChangeEvent) =>
+                                  updateJoinStep(stepIdx, {
+                                    type: e.target.value as JoinType,
+                                  })
+                                }
+                                sx={{ minWidth: 170, fontWeight: "bold" }}
+                              >
+                                {Object.entries(JOIN_TYPE_LABELS).map(
+                                  ([value, label]) => (
+                                    <MenuItem key={value} value={value}>
+                                      {label}
+                                    </MenuItem>
+                                  )
+                                )}
+                              </Select>
+                              <FormControl size="small" sx={{ minWidth: 200 }}>
+                                <InputLabel>Table</InputLabel>
+                                <Select
+                                  value={step.table}
+                                  label="Table"
+                                  onChange={(e: SelectChangeEvent) =>
+                                    setJoinStepTable(stepIdx, e.target.value)
+                                  }
+                                >
+                                  {tables
+                                    .filter(
+                                      (t) =>
+                                        t.id === step.table ||
+                                        !joinChain.includes(t.id)
+                                    )
+                                    .map((t) => (
+                                      <MenuItem key={t.id} value={t.id}>
+                                        {t.name}
+                                      </MenuItem>
+                                    ))}
+                                </Select>
+                              </FormControl>
+                              <Box sx={{ flex: 1 }} />
+                              <Tooltip title="Remove join step">
+                                <IconButton
+                                  size="small"
+                                  onClick={() => removeJoinStep(stepIdx)}
+                                >
+                                  <DeleteIcon fontSize="small" />
+                                </IconButton>
+                              </Tooltip>
+                            </Stack>
+
+                            <Divider sx={{ my: 1.5 }} />
+
+                            <Stack spacing={1}>
+                              {step.keys.map((pair, keyIdx) => (
+                                <Box
+                                  key={keyIdx}
+                                  sx={{
+                                    display: "flex",
+                                    alignItems: "center",
+                                    gap: 1,
+                                    flexWrap: "wrap",
+                                  }}
+                                >
+                                  <Typography
+                                    variant="subtitle2"
+                                    color="text.secondary"
+                                    sx={{ width: 40 }}
+                                  >
+                                    {keyIdx === 0 ? "ON" : "AND"}
+                                  </Typography>
+                                  <Select
+                                    size="small"
+                                    value={pair.leftTable}
+                                    onChange={(e: SelectChangeEvent) =>
+                                      updateJoinKey(stepIdx, keyIdx, {
+                                        leftTable: e.target.value,
+                                        leftColumn: "",
+                                      })
+                                    }
+                                    sx={{ minWidth: 140 }}
+                                  >
+                                    {earlierTables.map((id) => (
+                                      <MenuItem key={id} value={id}>
+                                        {id}
+                                      </MenuItem>
+                                    ))}
+                                  </Select>
+                                  <Typography color="text.secondary">
+                                    .
+                                  </Typography>
+                                  <Select
+                                    size="small"
+                                    value={pair.leftColumn}
+                                    onChange={(e: SelectChangeEvent) =>
+                                      updateJoinKey(stepIdx, keyIdx, {
+                                        leftColumn: e.target.value,
+                                      })
+                                    }
+                                    sx={{ minWidth: 140 }}
+                                  >
+                                    {tables
+                                      .find((t) => t.id === pair.leftTable)
+                                      ?.columns.map((c) => (
+                                        <MenuItem key={c.name} value={c.name}>
+                                          {c.name}
+                                        </MenuItem>
+                                      ))}
+                                  </Select>
+                                  <Typography
+                                    variant="h6"
+                                    color="text.secondary"
+                                  >
+                                    =
+                                  </Typography>
+                                  <Typography
+                                    variant="body2"
+                                    color="text.secondary"
+                                  >
+                                    {step.table || "..."}.
+                                  </Typography>
+                                  <Select
+                                    size="small"
+                                    value={pair.rightColumn}
+                                    onChange={(e: SelectChangeEvent) =>
+                                      updateJoinKey(stepIdx, keyIdx, {
+                                        rightColumn: e.target.value,
+                                      })
+                                    }
+                                    sx={{ minWidth: 140 }}
+                                  >
+                                    {stepTable?.columns.map((c) => (
+                                      <MenuItem key={c.name} value={c.name}>
+                                        {c.name}
+                                      </MenuItem>
+                                    ))}
+                                  </Select>
+                                  {step.keys.length > 1 && (
+                                    <IconButton
+                                      size="small"
+                                      onClick={() =>
+                                        removeJoinKey(stepIdx, keyIdx)
+                                      }
                                     >
-                                      NULL
-                                    </Typography>
+                                      <DeleteIcon fontSize="small" />
+                                    </IconButton>
                                   )}
-                                </TableCell>
+                                </Box>
                               ))}
-                              <TableCell align="right">
+                              <Box>
+                                <Button
+                                  size="small"
+                                  startIcon={<AddIcon />}
+                                  onClick={() => addJoinKey(stepIdx)}
+                                >
+                                  Add Key Pair
+                                </Button>
+                              </Box>
+                            </Stack>
+                          </Paper>
+                        );
+                      })}
+
+                      <Box>
+                        <Button
+                          variant="outlined"
+                          startIcon={<AddIcon />}
+                          disabled={!queryConfig.baseTable}
+                          onClick={addJoinStep}
+                        >
+                          Add Join
+                        </Button>
+                      </Box>
+                    </Stack>
+                  </Paper>
+
+                  {queryConfig.baseTable && (
+                    <Paper sx={{ p: 3, borderRadius: 2 }} elevation={1}>
+                      <Stack spacing={3}>
+                        {/* SELECT */}
+                        <Box>
+                          <Typography variant="subtitle2" gutterBottom>
+                            Columns
+                          </Typography>
+                          <Stack spacing={1}>
+                            {queryConfig.columns.length === 0 && (
+                              <Typography
+                                variant="caption"
+                                color="text.secondary"
+                              >
+                                All columns of every table are selected.
+                              </Typography>
+                            )}
+                            {queryConfig.columns.map((col, i) => (
+                              <Box
+                                key={i}
+                                sx={{
+                                  display: "flex",
+                                  alignItems: "center",
+                                  gap: 1,
+                                }}
+                              >
+                                {renderAggregatePicker(
+                                  col.aggregate,
+                                  (aggregate) =>
+                                    updateQuery({
+                                      columns: queryConfig.columns.map(
+                                        (c, j) =>
+                                          j === i ? { ...c, aggregate } : c
+                                      ),
+                                    })
+                                )}
+                                {renderColumnPicker(
+                                  col,
+                                  (ref) =>
+                                    updateQuery({
+                                      columns: queryConfig.columns.map(
+                                        (c, j) =>
+                                          j === i ? { ...c, ...ref } : c
+                                      ),
+                                    }),
+                                  col.aggregate === "count"
+                                )}
+                                <Typography color="text.secondary">
+                                  AS
+                                </Typography>
+                                <TextField
+                                  size="small"
+                                  placeholder="alias"
+                                  value={col.alias || ""}
+                                  onChange={(e) =>
+                                    updateQuery({
+                                      columns: queryConfig.columns.map(
+                                        (c, j) =>
+                                          j === i
+                                            ? { ...c, alias: e.target.value }
+                                            : c
+                                      ),
+                                    })
+                                  }
+                                />
+                                <IconButton
+                                  size="small"
+                                  onClick={() =>
+                                    updateQuery({
+                                      columns: queryConfig.columns.filter(
+                                        (_, j) => j !== i
+                                      ),
+                                    })
+                                  }
+                                >
+                                  <DeleteIcon fontSize="small" />
+                                </IconButton>
+                              </Box>
+                            ))}
+                            <Box>
+                              <Button
+                                size="small"
+                                startIcon={<AddIcon />}
+                                onClick={() =>
+                                  updateQuery({
+                                    columns: [
+                                      ...queryConfig.columns,
+                                      { table: "", column: "", alias: "" },
+                                    ],
+                                  })
+                                }
+                              >
+                                Add Column
+                              </Button>
+                            </Box>
+                          </Stack>
+                        </Box>
+
+                        {/* WHERE */}
+                        <Box>
+                          <Typography variant="subtitle2" gutterBottom>
+                            Where
+                          </Typography>
+                          {renderConditionGroup(
+                            queryConfig.where || emptyConditionGroup(),
+                            (where) => updateQuery({ where }),
+                            false
+                          )}
+                        </Box>
+
+                        {/* GROUP BY */}
+                        <Box>
+                          <Typography variant="subtitle2" gutterBottom>
+                            Group By
+                          </Typography>
+                          <Autocomplete
+                            multiple
+                            size="small"
+                            options={queryColumnOptions.map(refKey)}
+                            value={queryConfig.groupBy.map(refKey)}
+                            onChange={(_, keys) =>
+                              updateQuery({ groupBy: keys.map(parseRefKey) })
+                            }
+                            renderInput={(params) => (
+                              <TextField
+                                {...params}
+                                placeholder="No grouping"
+                              />
+                            )}
+                          />
+                        </Box>
+
+                        {/* HAVING */}
+                        {queryConfig.groupBy.length > 0 && (
+                          <Box>
+                            <Typography variant="subtitle2" gutterBottom>
+                              Having
+                            </Typography>
+                            {renderConditionGroup(
+                              queryConfig.having || emptyConditionGroup(),
+                              (having) => updateQuery({ having }),
+                              true
+                            )}
+                          </Box>
+                        )}
+
+                        {/* ORDER BY */}
+                        <Box>
+                          <Typography variant="subtitle2" gutterBottom>
+                            Order By
+                          </Typography>
+                          <Stack spacing={1}>
+                            {queryConfig.orderBy.map((item, i) => (
+                              <Box
+                                key={i}
+                                sx={{
+                                  display: "flex",
+                                  alignItems: "center",
+                                  gap: 1,
+                                }}
+                              >
+                                {renderAggregatePicker(
+                                  item.aggregate,
+                                  (aggregate) =>
+                                    updateQuery({
+                                      orderBy: queryConfig.orderBy.map(
+                                        (o, j) =>
+                                          j === i ? { ...o, aggregate } : o
+                                      ),
+                                    })
+                                )}
+                                {renderColumnPicker(
+                                  item,
+                                  (ref) =>
+                                    updateQuery({
+                                      orderBy: queryConfig.orderBy.map(
+                                        (o, j) =>
+                                          j === i ? { ...o, ...ref } : o
+                                      ),
+                                    }),
+                                  item.aggregate === "count"
+                                )}
+                                <Select
+                                  size="small"
+                                  value={item.direction}
+                                  onChange={(e: SelectChangeEvent) =>
+                                    updateQuery({
+                                      orderBy: queryConfig.orderBy.map(
+                                        (o, j) =>
+                                          j === i
+                                            ? {
+                                                ...o,
+                                                direction: e.target
+                                                  .value as SortDirection,
+                                              }
+                                            : o
+                                      ),
+                                    })
+                                  }
+                                >
+                                  <MenuItem value="asc">ASC</MenuItem>
+                                  <MenuItem value="desc">DESC</MenuItem>
+                                </Select>
                                 <IconButton
                                   size="small"
-                                  onClick={() => openEditRowModal(row)}
-                                  color="primary"
+                                  onClick={() =>
+                                    updateQuery({
+                                      orderBy: queryConfig.orderBy.filter(
+                                        (_, j) => j !== i
+                                      ),
+                                    })
+                                  }
                                 >
-                                  <EditIcon fontSize="small" />
+                                  <DeleteIcon fontSize="small" />
                                 </IconButton>
-                              </TableCell>
-                            </TableRow>
-                          ))
-                        )}
-                      </TableBody>
-                    </Table>
+                              </Box>
+                            ))}
+                            <Box>
+                              <Button
+                                size="small"
+                                startIcon={<AddIcon />}
+                                onClick={() =>
+                                  updateQuery({
+                                    orderBy: [
+                                      ...queryConfig.orderBy,
+                                      {
+                                        table: "",
+                                        column: "",
+                                        direction: "asc",
+                                      },
+                                    ],
+                                  })
+                                }
+                              >
+                                Add Sort
+                              </Button>
+                            </Box>
+                          </Stack>
+                        </Box>
+
+                        {/* LIMIT / OFFSET */}
+                        <Box sx={{ display: "flex", gap: 2 }}>
+                          <TextField
+                            size="small"
+                            type="number"
+                            label="Limit"
+                            value={queryConfig.limit}
+                            onChange={(e) =>
+                              updateQuery({
+                                limit: Math.max(1, Number(e.target.value) || 1),
+                              })
+                            }
+                            sx={{ width: 140 }}
+                          />
+                          <TextField
+                            size="small"
+                            type="number"
+                            label="Offset"
+                            value={queryConfig.offset}
+                            onChange={(e) =>
+                              updateQuery({
+                                offset: Math.max(
+                                  0,
+                                  Number(e.target.value) || 0
+                                ),
+                              })
+                            }
+                            sx={{ width: 140 }}
+                          />
+                        </Box>
+                      </Stack>
+                    </Paper>
+                  )}
+
+                  {/* Results */}
+                  <TableContainer
+                    component={Paper}
+                    elevation={1}
+                    sx={{ borderRadius: 2 }}
+                  >
+                    <Box
+                      sx={{
+                        p: 2,
+                        bgcolor: "grey.50",
+                        borderBottom: 1,
+                        borderColor: "divider",
+                        display: "flex",
+                        justifyContent: "space-between",
+                      }}
+                    >
+                      <Typography variant="subtitle2" fontWeight="bold">
+                        Query Results
+                      </Typography>
+                      <Box sx={{ display: "flex", gap: 1 }}>
+                        <Chip
+                          label={`${joinResults.length} matches`}
+                          size="small"
+                        />
+                        <Button
+                          size="small"
+                          startIcon={<DownloadIcon />}
+                          disabled={
+                            !isJoinComplete(queryConfig) ||
+                            api.isLoading("exportQuery")
+                          }
+                          onClick={(e) =>
+                            setExportMenu({
+                              anchor: e.currentTarget,
+                              target: "query",
+                            })
+                          }
+                        >
+                          Export All
+                        </Button>
+                      </Box>
+                    </Box>
+                    {renderResultsTable(
+                      joinColumns,
+                      joinResults,
+                      "No matching records found for this join chain."
+                    )}
                   </TableContainer>
-                ) : (
+                </Stack>
+              )}
+            </Box>
+
+            {/* SQL Logger / Inspector */}
+            <Paper
+              square
+              elevation={3}
+              sx={{
+                width: 320,
+                bgcolor: "#1e1e1e",
+                color: "#d4d4d4",
+                display: "flex",
+                flexDirection: "column",
+                borderLeft: "1px solid #333",
+              }}
+            >
+              <Box
+                sx={{
+                  p: 2,
+                  borderBottom: "1px solid #333",
+                  display: "flex",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                }}
+              >
+                <Typography
+                  variant="subtitle2"
+                  sx={{
+                    fontWeight: 700,
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 1,
+                  }}
+                >
+                  <CodeIcon fontSize="small" /> SQL LOGS
+                </Typography>
+                <Box sx={{ display: "flex", alignItems: "center" }}>
+                  <Tooltip title="Copy log as SQL">
+                    <span>
+                      <IconButton
+                        size="small"
+                        disabled={sqlLogs.length === 0}
+                        onClick={() => copyToClipboard(logToSqlScript(sqlLogs))}
+                        sx={{ color: "grey.500" }}
+                      >
+                        <CopyIcon fontSize="inherit" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Export as .sql">
+                    <span>
+                      <IconButton
+                        size="small"
+                        disabled={sqlLogs.length === 0}
+                        onClick={exportSqlLog}
+                        sx={{ color: "grey.500" }}
+                      >
+                        <DownloadIcon fontSize="inherit" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Button
+                    size="small"
+                    onClick={() => setSqlLogs([])}
+                    sx={{ color: "grey.500", minWidth: "auto", p: 0.5 }}
+                  >
+                    Clear
+                  </Button>
+                </Box>
+              </Box>
+              <Box
+                sx={{
+                  flex: 1,
+                  overflowY: "auto",
+                  p: 2,
+                  fontFamily: "Monospace",
+                  fontSize: "0.75rem",
+                  display: "flex",
+                  flexDirection: "column",
+                  gap: 1,
+                }}
+              >
+                {sqlLogs.map((log) => (
                   <Box
+                    key={log.id}
                     sx={{
-                      height: "100%",
-                      display: "flex",
-                      flexDirection: "column",
-                      alignItems: "center",
-                      justifyContent: "center",
-                      opacity: 0.6,
+                      borderLeft: `2px solid ${
+                        log.kind === "error"
+                          ? "#f44336"
+                          : log.kind === "sql"
+                          ? "#2196f3"
+                          : "#555"
+                      }`,
+                      pl: 1.5,
+                      py: 0.5,
+                      position: "relative",
+                      "&:hover .log-copy": { opacity: 1 },
                     }}
                   >
-                    <StorageIcon
-                      sx={{ fontSize: 64, color: "grey.300", mb: 2 }}
-                    />
-                    <Typography variant="h6" color="text.secondary">
-                      Select a table to view data
-                    </Typography>
-                    <Button
-                      variant="contained"
-                      sx={{ mt: 2 }}
-                      onClick={() => setIsTableModalOpen(true)}
+                    <Box
+                      sx={{
+                        color: "grey.600",
+                        fontSize: "0.7rem",
+                        mb: 0.25,
+                        pr: 3,
+                      }}
                     >
-                      Create Table
-                    </Button>
+                      {describeLogEntry(log)}
+                    </Box>
+                    <Box
+                      sx={{
+                        whiteSpace: "pre-wrap",
+                        wordBreak: "break-word",
+                        color: log.kind === "error" ? "#f48771" : "inherit",
+                      }}
+                    >
+                      {log.text}
+                    </Box>
+                    <IconButton
+                      className="log-copy"
+                      size="small"
+                      onClick={() => copyToClipboard(log.text)}
+                      sx={{
+                        position: "absolute",
+                        top: 0,
+                        right: 0,
+                        opacity: 0,
+                        color: "grey.500",
+                        p: 0.25,
+                      }}
+                    >
+                      <CopyIcon sx={{ fontSize: 12 }} />
+                    </IconButton>
                   </Box>
-                )
-              ) : (
-                /* QUERY BUILDER VIEW */
-                <Stack spacing={4}>
-                  <Paper sx={{ p: 3, borderRadius: 2 }} elevation={1}>
-                    <Stack
-                      direction="row"
-                      alignItems="flex-end"
-                      spacing={3}
-                      flexWrap="wrap"
+                ))}
+                {sqlLogs.length === 0 && (
+                  <Typography
+                    variant="caption"
+                    sx={{ fontStyle: "italic", color: "grey.700" }}
+                  >
+                    No operations yet...
+                  </Typography>
+                )}
+              </Box>
+              <Box
+                sx={{ p: 2, borderTop: "1px solid #333", bgcolor: "#252526" }}
+              >
+                <Button
+                  fullWidth
+                  variant="contained"
+                  color="primary"
+                  startIcon={<RefreshIcon />}
+                  onClick={() => refreshTables("all")}
+                >
+                  Refresh Data
+                </Button>
+              </Box>
+            </Paper>
+          </Box>
+        </Box>
+
+        {/* --- Modals --- */}
+
+        {/* Create Table Modal */}
+        <Dialog
+          open={isTableModalOpen}
+          onClose={() => setIsTableModalOpen(false)}
+          maxWidth="xs"
+          fullWidth
+        >
+          <DialogTitle>Create New Table</DialogTitle>
+          <DialogContent>
+            <TextField
+              autoFocus
+              margin="dense"
+              label="Table Name"
+              placeholder="e.g. products"
+              fullWidth
+              variant="outlined"
+              value={newTableName}
+              error={!!tableFormError}
+              helperText={tableFormError}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                setNewTableName(e.target.value);
+                setTableFormError(null);
+              }}
+            />
+          </DialogContent>
+          <DialogActions sx={{ px: 3, pb: 3 }}>
+            <Button onClick={() => setIsTableModalOpen(false)} color="inherit">
+              Cancel
+            </Button>
+            <Button
+              onClick={createTable}
+              variant="contained"
+              disabled={api.isLoading("createTable")}
+            >
+              Create Table
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Export Format Menu */}
+        <Menu
+          anchorEl={exportMenu?.anchor}
+          open={!!exportMenu}
+          onClose={() => setExportMenu(null)}
+        >
+          {EXPORT_CHOICES.map((choice) => (
+            <MenuItem
+              key={choice.value}
+              onClick={() =>
+                exportMenu && exportData(exportMenu.target, choice.value)
+              }
+            >
+              {choice.label}
+            </MenuItem>
+          ))}
+        </Menu>
+
+        {/* Schema Export Menu */}
+        <Menu
+          anchorEl={schemaExportAnchor}
+          open={!!schemaExportAnchor}
+          onClose={() => setSchemaExportAnchor(null)}
+        >
+          <MenuItem onClick={() => exportSchema("sql")}>SQL script</MenuItem>
+          <MenuItem onClick={() => exportSchema("json")}>
+            JSON schema document
+          </MenuItem>
+        </Menu>
+
+        {/* Schema Import Modal */}
+        <Dialog
+          open={isSchemaImportOpen}
+          onClose={() => setIsSchemaImportOpen(false)}
+          maxWidth="sm"
+          fullWidth
+        >
+          <DialogTitle>Import Schema</DialogTitle>
+          <DialogContent>
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              {schemaImportError && (
+                <Alert severity="error">{schemaImportError}</Alert>
+              )}
+              <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+                <Button
+                  component="label"
+                  variant="outlined"
+                  startIcon={<UploadIcon />}
+                >
+                  Choose File
+                  <input
+                    hidden
+                    type="file"
+                    accept=".json"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) loadSchemaFile(file);
+                      e.target.value = "";
+                    }}
+                  />
+                </Button>
+                <Typography variant="body2" color="text.secondary">
+                  {schemaFile
+                    ? `${schemaFile.name}: ${schemaFile.document.tables.length} tables`
+                    : "A JSON schema document from Export Schema"}
+                </Typography>
+              </Box>
+
+              <RadioGroup
+                value={schemaOnConflict}
+                onChange={(e) =>
+                  setSchemaOnConflict(
+                    e.target.value as SchemaImportRequest["onConflict"]
+                  )
+                }
+              >
+                <FormControlLabel
+                  value="abort"
+                  control={<Radio />}
+                  label="Create nothing if any table already exists"
+                />
+                <FormControlLabel
+                  value="skip"
+                  control={<Radio />}
+                  label="Keep existing tables and create the others"
+                />
+              </RadioGroup>
+
+              {api.isLoading("importSchema") && <LinearProgress />}
+
+              {schemaImportResult && (
+                <Alert
+                  severity={
+                    schemaImportResult.created.length > 0
+                      ? "success"
+                      : "warning"
+                  }
+                >
+                  {schemaImportResult.message}
+                  {schemaImportResult.conflicts.length > 0 && (
+                    <Box
+                      component="ul"
+                      sx={{ m: 0, pl: 2, maxHeight: 160, overflow: "auto" }}
                     >
-                      <FormControl size="small" sx={{ minWidth: 200 }}>
-                        <InputLabel>Left Table</InputLabel>
-                        <Select
-                          value={joinConfig.leftTable}
-                          label="Left Table"
-                          onChange={(e: SelectChangeEvent) =>
-                            setJoinConfig({
-                              ...joinConfig,
-                              leftTable: e.target.value,
-                            })
+                      {schemaImportResult.conflicts.map((conflict) => (
+                        <li key={conflict.table}>{conflict.message}</li>
+                      ))}
+                    </Box>
+                  )}
+                </Alert>
+              )}
+            </Stack>
+          </DialogContent>
+          <DialogActions sx={{ px: 3, pb: 3 }}>
+            <Button
+              onClick={() => setIsSchemaImportOpen(false)}
+              color="inherit"
+            >
+              {schemaImportResult?.created.length ? "Close" : "Cancel"}
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<UploadIcon />}
+              disabled={
+                !schemaFile ||
+                api.isLoading("importSchema") ||
+                !!schemaImportResult?.created.length
+              }
+              onClick={runSchemaImport}
+            >
+              Create Tables
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Migration History Modal */}
+        <Dialog
+          open={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          maxWidth="md"
+          fullWidth
+        >
+          <DialogTitle sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+            Migration History
+            {migrationHistory && (
+              <Chip
+                label={`Version ${migrationHistory.version}`}
+                size="small"
+              />
+            )}
+          </DialogTitle>
+          <DialogContent>
+            <Stack spacing={2}>
+              {historyError && <Alert severity="error">{historyError}</Alert>}
+              {(api.isLoading("getMigrations") ||
+                api.isLoading("rollbackMigrations")) && <LinearProgress />}
+              {migrationHistory?.migrations.length === 0 && (
+                <Typography variant="body2" color="text.secondary">
+                  No schema changes recorded yet. Creating, altering and
+                  dropping tables here adds a migration; changes made in the SQL
+                  console don't.
+                </Typography>
+              )}
+              <List dense disablePadding>
+                {[...(migrationHistory?.migrations || [])]
+                  .reverse()
+                  .map((migration) => (
+                    <React.Fragment key={migration.version}>
+                      <ListItem
+                        disablePadding
+                        secondaryAction={
+                          <Tooltip
+                            title={`Roll back to version ${
+                              migration.version - 1
+                            }`}
+                          >
+                            <span>
+                              <Button
+                                size="small"
+                                color="error"
+                                startIcon={<UndoIcon />}
+                                disabled={api.isLoading("rollbackMigrations")}
+                                onClick={() =>
+                                  undoMigrations(migration.version)
+                                }
+                              >
+                                Undo from here
+                              </Button>
+                            </span>
+                          </Tooltip>
+                        }
+                      >
+                        <ListItemButton
+                          onClick={() =>
+                            setExpandedMigration(
+                              expandedMigration === migration.version
+                                ? null
+                                : migration.version
+                            )
                           }
+                          sx={{ pr: 20 }}
                         >
-                          {tables.map((t) => (
-                            <MenuItem key={t.id} value={t.id}>
-                              {t.name}
-                            </MenuItem>
-                          ))}
-                        </Select>
-                      </FormControl>
+                          <ListItemIcon sx={{ minWidth: 56 }}>
+                            <Chip
+                              label={migration.version}
+                              size="small"
+                              variant="outlined"
+                            />
+                          </ListItemIcon>
+                          <ListItemText
+                            primary={migration.description}
+                            secondary={new Date(
+                              migration.appliedAt
+                            ).toLocaleString()}
+                          />
+                        </ListItemButton>
+                      </ListItem>
+                      {expandedMigration === migration.version &&
+                        (
+                          [
+                            ["Up", migration.upSql],
+                            ["Down", migration.downSql],
+                          ] as const
+                        ).map(([label, sql]) => (
+                          <Box key={label} sx={{ pl: 9, pr: 2, pb: 1 }}>
+                            <Typography
+                              variant="caption"
+                              color="text.secondary"
+                            >
+                              {label}
+                            </Typography>
+                            <Box
+                              component="pre"
+                              sx={{
+                                m: 0,
+                                p: 1.5,
+                                borderRadius: 1,
+                                bgcolor: "#1e1e1e",
+                                color: "#d4d4d4",
+                                fontFamily: "Monospace",
+                                fontSize: "0.8rem",
+                                whiteSpace: "pre-wrap",
+                                wordBreak: "break-word",
+                              }}
+                            >
+                              {highlightSql(sql)}
+                            </Box>
+                          </Box>
+                        ))}
+                    </React.Fragment>
+                  ))}
+              </List>
+            </Stack>
+          </DialogContent>
+          <DialogActions sx={{ px: 3, pb: 3 }}>
+            <Button onClick={() => setIsHistoryOpen(false)} color="inherit">
+              Close
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<DownloadIcon />}
+              disabled={
+                !migrationHistory?.migrations.length ||
+                api.isLoading("exportMigrations")
+              }
+              onClick={exportMigrationFiles}
+            >
+              Export Migration Files
+            </Button>
+          </DialogActions>
+        </Dialog>
 
-                      <Box
-                        sx={{
-                          display: "flex",
-                          alignItems: "center",
-                          color: "primary.main",
-                          pb: 1,
-                        }}
-                      >
-                        <ArrowRightIcon />
+        {/* Enum & Domain Types Modal */}
+        <Dialog
+          open={isTypesOpen}
+          onClose={() => setIsTypesOpen(false)}
+          maxWidth="md"
+          fullWidth
+        >
+          <DialogTitle>Enum & Domain Types</DialogTitle>
+          <DialogContent>
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              {typesError && <Alert severity="error">{typesError}</Alert>}
+              {(api.isLoading("getTypes") ||
+                api.isLoading("alterType") ||
+                api.isLoading("dropType")) && <LinearProgress />}
+              {enumTypes.length === 0 && domainTypes.length === 0 && (
+                <Typography variant="body2" color="text.secondary">
+                  No types defined yet. An enum limits a column to a fixed list
+                  of values, such as an order status; a domain is a type with
+                  its own check, default or NOT NULL that several columns can
+                  share.
+                </Typography>
+              )}
+              {enumTypes.map((e) =>
+                renderUserType(
+                  "enum",
+                  e.name,
+                  e.usedBy,
+                  <Box
+                    sx={{ display: "flex", flexWrap: "wrap", gap: 0.5, my: 1 }}
+                  >
+                    {e.values.map((v) => (
+                      <Tooltip key={v} title="Rename Value">
                         <Chip
-                          label="INNER JOIN"
-                          color="primary"
-                          variant="outlined"
+                          label={v}
                           size="small"
-                          sx={{
-                            mx: 1,
-                            fontWeight: "bold",
-                            bgcolor: "primary.50",
-                            border: "1px solid",
-                            borderColor: "primary.main",
-                          }}
+                          onClick={() =>
+                            setTypeEdit({
+                              name: e.name,
+                              action: "rename_value",
+                              value: v,
+                              newName: v,
+                            })
+                          }
                         />
-                        <ArrowRightIcon />
+                      </Tooltip>
+                    ))}
+                  </Box>
+                )
+              )}
+              {domainTypes.map((d) =>
+                renderUserType(
+                  "domain",
+                  d.name,
+                  d.usedBy,
+                  <Box
+                    sx={{ my: 1, fontFamily: "Monospace", fontSize: "0.85rem" }}
+                  >
+                    {d.baseType}
+                    {!d.nullable && " NOT NULL"}
+                    {d.default != null && ` DEFAULT ${d.default}`}
+                    {d.checks.map((c) => (
+                      <Box key={c.name || c.expression}>
+                        CHECK ({c.expression})
                       </Box>
+                    ))}
+                  </Box>
+                )
+              )}
 
-                      <FormControl size="small" sx={{ minWidth: 200 }}>
-                        <InputLabel>Right Table</InputLabel>
-                        <Select
-                          value={joinConfig.rightTable}
-                          label="Right Table"
-                          onChange={(e: SelectChangeEvent) =>
-                            setJoinConfig({
-                              ...joinConfig,
-                              rightTable: e.target.value,
+              <Divider />
+              <Typography variant="subtitle2">New Type</Typography>
+              <RadioGroup
+                row
+                value={typeDraft.kind}
+                onChange={(e) =>
+                  setTypeDraft({
+                    ...typeDraft,
+                    kind: e.target.value as CreateTypeRequest["kind"],
+                  })
+                }
+              >
+                <FormControlLabel
+                  value="enum"
+                  control={<Radio size="small" />}
+                  label="Enum (a fixed list of values)"
+                />
+                <FormControlLabel
+                  value="domain"
+                  control={<Radio size="small" />}
+                  label="Domain (a type with its own rules)"
+                />
+              </RadioGroup>
+              <TextField
+                label="Type Name"
+                placeholder={
+                  typeDraft.kind === "enum" ? "order_status" : "positive_amount"
+                }
+                value={typeDraft.name}
+                onChange={(e) =>
+                  setTypeDraft({ ...typeDraft, name: e.target.value })
+                }
+                helperText="Lower case letters, digits and underscores"
+              />
+              {typeDraft.kind === "enum" ? (
+                <Autocomplete
+                  multiple
+                  freeSolo
+                  options={[]}
+                  value={typeDraft.values || []}
+                  onChange={(_, values) =>
+                    setTypeDraft({
+                      ...typeDraft,
+                      values: values.map((v) => v.trim()).filter(Boolean),
+                    })
+                  }
+                  renderInput={(params) => (
+                    <TextField
+                      {...params}
+                      label="Values"
+                      helperText="Press Enter after each value; their order is the sort order"
+                    />
+                  )}
+                />
+              ) : (
+                <>
+                  {renderTypeFields(typeDraft.baseType || "", (baseType) =>
+                    setTypeDraft({ ...typeDraft, baseType })
+                  )}
+                  <TextField
+                    label="Check"
+                    placeholder="VALUE > 0"
+                    value={typeDraft.check || ""}
+                    onChange={(e) =>
+                      setTypeDraft({ ...typeDraft, check: e.target.value })
+                    }
+                    helperText="A condition on VALUE that every value must meet"
+                  />
+                  <Box sx={{ display: "flex", gap: 2, alignItems: "center" }}>
+                    <TextField
+                      label="Default"
+                      placeholder="e.g. 0 or 'draft'"
+                      value={typeDraft.default || ""}
+                      onChange={(e) =>
+                        setTypeDraft({ ...typeDraft, default: e.target.value })
+                      }
+                      sx={{ flexGrow: 1 }}
+                    />
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          checked={!typeDraft.nullable}
+                          onChange={(e) =>
+                            setTypeDraft({
+                              ...typeDraft,
+                              nullable: !e.target.checked,
                             })
                           }
-                        >
-                          {tables.map((t) => (
-                            <MenuItem key={t.id} value={t.id}>
-                              {t.name}
-                            </MenuItem>
-                          ))}
-                        </Select>
-                      </FormControl>
-                    </Stack>
+                        />
+                      }
+                      label="NOT NULL"
+                    />
+                  </Box>
+                </>
+              )}
+            </Stack>
+          </DialogContent>
+          <DialogActions sx={{ px: 3, pb: 3 }}>
+            <Button onClick={() => setIsTypesOpen(false)} color="inherit">
+              Close
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              disabled={
+                !typeDraft.name.trim() ||
+                (typeDraft.kind === "enum" && !typeDraft.values?.length) ||
+                api.isLoading("createType")
+              }
+              onClick={createUserType}
+            >
+              Create Type
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Create Index Modal */}
+        <Dialog
+          open={!!indexDraft}
+          onClose={() => setIndexDraft(null)}
+          maxWidth="sm"
+          fullWidth
+        >
+          <DialogTitle>Create Index on {indexDraft?.table_name}</DialogTitle>
+          <DialogContent>
+            {indexDraft && (
+              <Stack spacing={3} sx={{ mt: 1 }}>
+                {indexFormError && (
+                  <Alert severity="error">{indexFormError}</Alert>
+                )}
+                <Autocomplete
+                  multiple
+                  options={(activeTable?.columns || []).map((c) => c.name)}
+                  value={indexDraft.columns}
+                  onChange={(_, columns) =>
+                    setIndexDraft({ ...indexDraft, columns })
+                  }
+                  renderInput={(params) => (
+                    <TextField
+                      {...params}
+                      label="Columns"
+                      helperText="In order: lookups can use the index when they filter on its first column"
+                    />
+                  )}
+                />
+                <FormControl fullWidth>
+                  <InputLabel>Method</InputLabel>
+                  <Select
+                    value={indexDraft.method}
+                    label="Method"
+                    onChange={(e: SelectChangeEvent) =>
+                      setIndexDraft({
+                        ...indexDraft,
+                        method: e.target.value as IndexMethod,
+                        unique: e.target.value === "btree" && indexDraft.unique,
+                      })
+                    }
+                  >
+                    {(Object.keys(INDEX_METHODS) as IndexMethod[]).map(
+                      (method) => (
+                        <MenuItem key={method} value={method}>
+                          {INDEX_METHODS[method]}
+                        </MenuItem>
+                      )
+                    )}
+                  </Select>
+                </FormControl>
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      checked={!!indexDraft.unique}
+                      disabled={indexDraft.method !== "btree"}
+                      onChange={(e) =>
+                        setIndexDraft({
+                          ...indexDraft,
+                          unique: e.target.checked,
+                        })
+                      }
+                    />
+                  }
+                  label="Unique (no two rows may share these values)"
+                />
+                <TextField
+                  label="Only Rows Where (optional)"
+                  placeholder="deleted_at IS NULL"
+                  value={indexDraft.where || ""}
+                  onChange={(e) =>
+                    setIndexDraft({ ...indexDraft, where: e.target.value })
+                  }
+                  helperText="Makes a partial index, covering only the rows that match"
+                />
+                <TextField
+                  label="Index Name (optional)"
+                  placeholder={`${
+                    indexDraft.table_name
+                  }_${indexDraft.columns.join("_")}_${
+                    indexDraft.unique ? "key" : "idx"
+                  }`}
+                  value={indexDraft.name || ""}
+                  onChange={(e) =>
+                    setIndexDraft({ ...indexDraft, name: e.target.value })
+                  }
+                />
+              </Stack>
+            )}
+          </DialogContent>
+          <DialogActions sx={{ px: 3, pb: 3 }}>
+            <Button onClick={() => setIndexDraft(null)} color="inherit">
+              Cancel
+            </Button>
+            <Button
+              variant="contained"
+              disabled={
+                !indexDraft?.columns.length || api.isLoading("createIndex")
+              }
+              onClick={saveIndex}
+            >
+              Create Index
+            </Button>
+          </DialogActions>
+        </Dialog>
 
-                    <Divider sx={{ my: 3 }} />
+        {/* Column Menu */}
+        <Menu
+          anchorEl={columnMenu?.anchor}
+          open={!!columnMenu}
+          onClose={() => setColumnMenu(null)}
+        >
+          {columnMenu && [
+            <MenuItem
+              key="rename"
+              onClick={() =>
+                openAlterDialog({
+                  action: "rename_column",
+                  column: columnMenu.column.name,
+                  newName: columnMenu.column.name,
+                })
+              }
+            >
+              Rename…
+            </MenuItem>,
+            <MenuItem
+              key="type"
+              onClick={() =>
+                openAlterDialog({
+                  action: "set_type",
+                  column: columnMenu.column.name,
+                  type: columnMenu.column.type,
+                })
+              }
+            >
+              Change Type…
+            </MenuItem>,
+            <MenuItem
+              key="nullable"
+              onClick={() =>
+                openAlterDialog({
+                  action: "set_nullable",
+                  column: columnMenu.column.name,
+                  nullable: columnMenu.column.nullable === false,
+                })
+              }
+            >
+              {columnMenu.column.nullable === false
+                ? "Allow NULL…"
+                : "Set NOT NULL…"}
+            </MenuItem>,
+            <MenuItem
+              key="default"
+              onClick={() =>
+                openAlterDialog({
+                  action: "set_default",
+                  column: columnMenu.column.name,
+                  default: columnMenu.column.default || "",
+                })
+              }
+            >
+              Set Default…
+            </MenuItem>,
+            <Divider key="divider" />,
+            <MenuItem
+              key="drop"
+              sx={{ color: "error.main" }}
+              onClick={() =>
+                openAlterDialog({
+                  action: "drop_column",
+                  column: columnMenu.column.name,
+                })
+              }
+            >
+              Drop Column…
+            </MenuItem>,
+          ]}
+        </Menu>
 
-                    <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
-                      <Typography variant="subtitle2" color="text.secondary">
-                        ON Condition:
-                      </Typography>
+        {/* Alter Table Modal */}
+        <Dialog
+          open={!!alterDraft}
+          onClose={() => setAlterDraft(null)}
+          maxWidth="sm"
+          fullWidth
+        >
+          <DialogTitle>
+            {alterDraft && ALTER_TITLES[alterDraft.action]}
+          </DialogTitle>
+          <DialogContent>
+            {alterDraft && (
+              <Stack spacing={2} sx={{ mt: 1 }}>
+                {alterError && <Alert severity="error">{alterError}</Alert>}
 
-                      <Paper
-                        variant="outlined"
-                        sx={{
-                          p: 0.5,
-                          display: "flex",
-                          alignItems: "center",
-                          bgcolor: "grey.50",
-                        }}
-                      >
-                        <Typography
-                          variant="body2"
-                          sx={{ px: 1, color: "text.secondary" }}
-                        >
-                          {joinConfig.leftTable || "..."}.
-                        </Typography>
-                        <Select
-                          variant="standard"
-                          disableUnderline
-                          value={joinConfig.leftKey}
-                          onChange={(e: SelectChangeEvent) =>
-                            setJoinConfig({
-                              ...joinConfig,
-                              leftKey: e.target.value,
-                            })
-                          }
-                          sx={{
-                            fontWeight: "bold",
-                            color: "text.primary",
-                            minWidth: 80,
-                          }}
-                        >
-                          {tables
-                            .find((t) => t.id === joinConfig.leftTable)
-                            ?.columns.map((c) => (
-                              <MenuItem key={c.name} value={c.name}>
-                                {c.name}
-                              </MenuItem>
-                            ))}
-                        </Select>
-                      </Paper>
+                {(alterDraft.action === "rename_table" ||
+                  alterDraft.action === "rename_column") && (
+                  <TextField
+                    label="New Name"
+                    value={alterDraft.newName || ""}
+                    onChange={(e) =>
+                      updateAlterDraft({ newName: e.target.value })
+                    }
+                    fullWidth
+                    autoFocus
+                  />
+                )}
+                {alterDraft.action === "set_type" && (
+                  <>
+                    {renderTypeFields(alterDraft.type || "", (type) =>
+                      updateAlterDraft({ type })
+                    )}
+                    <Typography variant="caption" color="text.secondary">
+                      Existing values of {alterDraft.column} are converted with
+                      a cast.
+                    </Typography>
+                  </>
+                )}
+                {alterDraft.action === "set_default" && (
+                  <TextField
+                    label="Default"
+                    value={alterDraft.default || ""}
+                    onChange={(e) =>
+                      updateAlterDraft({ default: e.target.value })
+                    }
+                    helperText="A literal like 'pending' or an expression like now(). Leave empty to drop the default."
+                    fullWidth
+                    autoFocus
+                  />
+                )}
+                {alterDraft.action === "set_nullable" && (
+                  <Typography variant="body2">
+                    {alterDraft.nullable
+                      ? `${alterDraft.column} will accept NULL.`
+                      : `Every row must have a value for ${alterDraft.column}.`}
+                  </Typography>
+                )}
+                {alterDraft.action === "drop_column" && (
+                  <Alert severity="warning">
+                    {alterDraft.column} and all its values will be deleted,
+                    along with any index or constraint that uses it.
+                  </Alert>
+                )}
 
-                      <Typography variant="h6" color="text.secondary">
-                        =
-                      </Typography>
+                {api.isLoading("previewAlterTable") && <LinearProgress />}
 
-                      <Paper
-                        variant="outlined"
-                        sx={{
-                          p: 0.5,
-                          display: "flex",
-                          alignItems: "center",
-                          bgcolor: "grey.50",
-                        }}
-                      >
-                        <Typography
-                          variant="body2"
-                          sx={{ px: 1, color: "text.secondary" }}
-                        >
-                          {joinConfig.rightTable || "..."}.
-                        </Typography>
-                        <Select
-                          variant="standard"
-                          disableUnderline
-                          value={joinConfig.rightKey}
-                          onChange={(e: SelectChangeEvent) =>
-                            setJoinConfig({
-                              ...joinConfig,
-                              rightKey: e.target.value,
-                            })
-                          }
-                          sx={{
-                            fontWeight: "bold",
-                            color: "text.primary",
-                            minWidth: 80,
-                          }}
-                        >
-                          {tables
-                            .find((t) => t.id === joinConfig.rightTable)
-                            ?.columns.map((c) => (
-                              <MenuItem key={c.name} value={c.name}>
-                                {c.name}
-                              </MenuItem>
-                            ))}
-                        </Select>
-                      </Paper>
+                {alterPreview && (
+                  <Box
+                    component="pre"
+                    sx={{
+                      m: 0,
+                      p: 1.5,
+                      borderRadius: 1,
+                      bgcolor: "#1e1e1e",
+                      color: "#d4d4d4",
+                      fontFamily: "Monospace",
+                      fontSize: "0.875rem",
+                      whiteSpace: "pre-wrap",
+                      wordBreak: "break-word",
+                    }}
+                  >
+                    {highlightSql(alterPreview.sql)}
+                  </Box>
+                )}
+                {alterPreview && alterPreview.blockingCount > 0 && (
+                  <>
+                    <Alert severity="warning">
+                      {alterPreview.blockingCount}{" "}
+                      {alterPreview.blockingCount === 1 ? "row" : "rows"}{" "}
+                      {alterDraft.action === "set_type"
+                        ? `can't be converted to ${alterDraft.type}`
+                        : `have no value for ${alterDraft.column}`}
+                      . Fix them first.
+                    </Alert>
+                    <Box
+                      sx={{
+                        maxHeight: 240,
+                        overflow: "auto",
+                        border: "1px solid",
+                        borderColor: "grey.300",
+                        borderRadius: 1,
+                      }}
+                    >
+                      {renderResultsTable(
+                        Object.keys(alterPreview.blockingRows[0] || {}),
+                        alterPreview.blockingRows,
+                        "No rows"
+                      )}
                     </Box>
-                  </Paper>
+                  </>
+                )}
+              </Stack>
+            )}
+          </DialogContent>
+          <DialogActions sx={{ px: 3, pb: 3 }}>
+            <Button onClick={() => setAlterDraft(null)} color="inherit">
+              Cancel
+            </Button>
+            <Button
+              variant="contained"
+              color={alterDraft?.action === "drop_column" ? "error" : "primary"}
+              disabled={
+                !alterPreview ||
+                alterPreview.blockingCount > 0 ||
+                api.isLoading("alterTable")
+              }
+              onClick={applyAlter}
+            >
+              {alterDraft && ALTER_TITLES[alterDraft.action]}
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Import Wizard Modal */}
+        <Dialog
+          open={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+          maxWidth="md"
+          fullWidth
+        >
+          <DialogTitle>Import Rows</DialogTitle>
+          <DialogContent>
+            <Stepper activeStep={importStep} sx={{ mb: 3 }}>
+              {IMPORT_STEPS.map((label) => (
+                <Step key={label}>
+                  <StepLabel>{label}</StepLabel>
+                </Step>
+              ))}
+            </Stepper>
 
-                  {/* Results */}
-                  <TableContainer
-                    component={Paper}
-                    elevation={1}
-                    sx={{ borderRadius: 2 }}
+            {importError && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {importError}
+              </Alert>
+            )}
+
+            {importStep === 0 && (
+              <Stack spacing={2}>
+                <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+                  <Button
+                    component="label"
+                    variant="outlined"
+                    startIcon={<UploadIcon />}
                   >
-                    <Box
-                      sx={{
-                        p: 2,
-                        bgcolor: "grey.50",
-                        borderBottom: 1,
-                        borderColor: "divider",
-                        display: "flex",
-                        justifyContent: "space-between",
+                    Choose File
+                    <input
+                      hidden
+                      type="file"
+                      accept=".csv,.json,.xlsx,.xls"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) loadImportFile(file);
+                        e.target.value = "";
                       }}
-                    >
-                      <Typography variant="subtitle2" fontWeight="bold">
-                        Query Results
-                      </Typography>
-                      <Chip
-                        label={`${joinResults.length} matches`}
-                        size="small"
-                      />
-                    </Box>
+                    />
+                  </Button>
+                  <Typography variant="body2" color="text.secondary">
+                    {importSource
+                      ? `${importSource.fileName}: ${importSource.rows.length} rows, ${importSource.columns.length} columns`
+                      : "CSV, JSON (array of objects) or Excel (first sheet)"}
+                  </Typography>
+                </Box>
+
+                <RadioGroup
+                  value={importMode}
+                  onChange={(e) => setImportMode(e.target.value as ImportMode)}
+                >
+                  <FormControlLabel
+                    value="existing"
+                    control={<Radio />}
+                    disabled={!activeTable}
+                    label={
+                      activeTable
+                        ? `Into ${activeTable.name}`
+                        : "Into the selected table (none selected)"
+                    }
+                  />
+                  <FormControlLabel
+                    value="new"
+                    control={<Radio />}
+                    label="Into a new table, with column types guessed from the data"
+                  />
+                </RadioGroup>
+                {importMode === "new" && (
+                  <TextField
+                    label="New Table Name"
+                    size="small"
+                    value={importTableName}
+                    onChange={(e) => setImportTableName(e.target.value)}
+                  />
+                )}
+
+                {importSource && (
+                  <TableContainer component={Paper} variant="outlined">
                     <Table size="small">
                       <TableHead>
                         <TableRow>
-                          {joinColumns.map((key) => (
-                            <TableCell
-                              key={key}
-                              sx={{ fontWeight: "bold", bgcolor: "#fff" }}
-                            >
-                              {key}
+                          {importSource.columns.map((c) => (
+                            <TableCell key={c} sx={{ fontWeight: 700 }}>
+                              {c}
                             </TableCell>
                           ))}
                         </TableRow>
                       </TableHead>
                       <TableBody>
-                        {joinResults.length > 0 ? (
-                          joinResults.map((row, i) => (
-                            <TableRow key={i} hover>
-                              {joinColumns.map((key) => (
-                                <TableCell key={key}>
-                                  {row[key] !== undefined && row[key] !== null
-                                    ? String(row[key])
-                                    : ""}
+                        {importSource.rows
+                          .slice(0, IMPORT_PREVIEW_ROWS)
+                          .map((row, i) => (
+                            <TableRow key={i}>
+                              {importSource.columns.map((c) => (
+                                <TableCell key={c}>
+                                  {row[c] instanceof Date
+                                    ? toIsoDate(row[c])
+                                    : toEditText(row[c])}
                                 </TableCell>
                               ))}
                             </TableRow>
-                          ))
-                        ) : (
-                          <TableRow>
-                            <TableCell
-                              colSpan={Math.max(joinColumns.length, 1)}
-                              align="center"
-                              sx={{ py: 4 }}
-                            >
-                              <Typography
-                                variant="body2"
-                                color="text.secondary"
-                              >
-                                No matching records found for this join
-                                condition.
-                              </Typography>
-                            </TableCell>
-                          </TableRow>
-                        )}
+                          ))}
                       </TableBody>
                     </Table>
                   </TableContainer>
-                </Stack>
-              )}
-            </Box>
+                )}
+              </Stack>
+            )}
 
-            {/* SQL Logger / Inspector */}
-            <Paper
-              square
-              elevation={3}
-              sx={{
-                width: 320,
-                bgcolor: "#1e1e1e",
-                color: "#d4d4d4",
-                display: "flex",
-                flexDirection: "column",
-                borderLeft: "1px solid #333",
-              }}
-            >
-              <Box
-                sx={{
-                  p: 2,
-                  borderBottom: "1px solid #333",
-                  display: "flex",
-                  justifyContent: "space-between",
-                  alignItems: "center",
-                }}
-              >
-                <Typography
-                  variant="subtitle2"
-                  sx={{
-                    fontWeight: 700,
-                    display: "flex",
-                    alignItems: "center",
-                    gap: 1,
-                  }}
-                >
-                  <CodeIcon fontSize="small" /> SQL LOGS
+            {importStep === 1 && importSource && (
+              <Stack spacing={2}>
+                {duplicateImportTargets.length > 0 && (
+                  <Alert severity="warning">
+                    More than one source column goes to{" "}
+                    {[...new Set(duplicateImportTargets)].join(", ")}.
+                  </Alert>
+                )}
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Source Column</TableCell>
+                      <TableCell>First Value</TableCell>
+                      <TableCell>
+                        {importMode === "new" ? "New Column" : "Table Column"}
+                      </TableCell>
+                      {importMode === "new" && <TableCell>Type</TableCell>}
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {importMapping.map((m, i) => {
+                      const first = importSource.rows.find(
+                        (row) => toEditText(row[m.source]) !== ""
+                      )?.[m.source];
+                      return (
+                        <TableRow key={m.source}>
+                          <TableCell>{m.source}</TableCell>
+                          <TableCell sx={{ color: "text.secondary" }}>
+                            {first instanceof Date
+                              ? toIsoDate(first)
+                              : toEditText(first)}
+                          </TableCell>
+                          {importMode === "existing" ? (
+                            <TableCell>
+                              <Select
+                                size="small"
+                                fullWidth
+                                displayEmpty
+                                value={m.target}
+                                onChange={(e) => {
+                                  const col = activeTable?.columns.find(
+                                    (c) => c.name === e.target.value
+                                  );
+                                  updateImportMapping(i, {
+                                    target: col?.name || "",
+                                    type: col?.type || "",
+                                  });
+                                }}
+                              >
+                                <MenuItem value="">
+                                  <em>Skip</em>
+                                </MenuItem>
+                                {activeTable?.columns.map((c) => (
+                                  <MenuItem key={c.name} value={c.name}>
+                                    {c.name} ({c.type})
+                                  </MenuItem>
+                                ))}
+                              </Select>
+                            </TableCell>
+                          ) : (
+                            <>
+                              <TableCell>
+                                <Box sx={{ display: "flex", gap: 1 }}>
+                                  <Checkbox
+                                    size="small"
+                                    checked={!!m.target}
+                                    onChange={(e) =>
+                                      updateImportMapping(i, {
+                                        target: e.target.checked
+                                          ? toColumnName(m.source)
+                                          : "",
+                                      })
+                                    }
+                                  />
+                                  <TextField
+                                    size="small"
+                                    fullWidth
+                                    disabled={!m.target}
+                                    value={m.target}
+                                    onChange={(e) =>
+                                      updateImportMapping(i, {
+                                        target: e.target.value,
+                                      })
+                                    }
+                                  />
+                                </Box>
+                              </TableCell>
+                              <TableCell>
+                                <Select
+                                  size="small"
+                                  fullWidth
+                                  disabled={!m.target}
+                                  value={m.type}
+                                  onChange={(e) =>
+                                    updateImportMapping(i, {
+                                      type: e.target.value,
+                                    })
+                                  }
+                                >
+                                  {DATA_TYPES.map((dt) => (
+                                    <MenuItem key={dt.value} value={dt.value}>
+                                      {dt.label}
+                                    </MenuItem>
+                                  ))}
+                                </Select>
+                              </TableCell>
+                            </>
+                          )}
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </Stack>
+            )}
+
+            {importStep === 2 && importPlan && (
+              <Stack spacing={2}>
+                <Typography variant="body2">
+                  {importPlan.rows.length} rows ready to import into{" "}
+                  <strong>
+                    {importMode === "new" ? importTableName : activeTable?.name}
+                  </strong>
+                  {importMode === "new" && " (new table)"}
+                  {importSkipped.length > 0 &&
+                    `, ${importSkipped.length} rejected rows left out`}
+                  .
                 </Typography>
-                <Button
-                  size="small"
-                  onClick={() => setSqlLogs([])}
-                  sx={{ color: "grey.500", minWidth: "auto", p: 0.5 }}
-                >
-                  Clear
-                </Button>
-              </Box>
-              <Box
-                sx={{
-                  flex: 1,
-                  overflowY: "auto",
-                  p: 2,
-                  fontFamily: "Monospace",
-                  fontSize: "0.75rem",
-                  display: "flex",
-                  flexDirection: "column",
-                  gap: 1,
-                }}
-              >
-                {sqlLogs.map((log, i) => (
-                  <Box
-                    key={i}
-                    sx={{ borderLeft: "2px solid #2196f3", pl: 1.5, py: 0.5 }}
-                  >
-                    {log}
-                  </Box>
-                ))}
-                {sqlLogs.length === 0 && (
-                  <Typography
-                    variant="caption"
-                    sx={{ fontStyle: "italic", color: "grey.700" }}
-                  >
-                    No operations yet...
-                  </Typography>
+
+                {importPlan.issues.length > 0 && (
+                  <>
+                    <Alert severity="warning">
+                      {importPlan.issues.length} values don't fit their column
+                      type.
+                      <Box
+                        component="ul"
+                        sx={{ m: 0, pl: 2, maxHeight: 160, overflow: "auto" }}
+                      >
+                        {importPlan.issues
+                          .slice(0, IMPORT_ISSUES_SHOWN)
+                          .map((issue, i) => (
+                            <li key={i}>
+                              Row {issue.row + 1}, {issue.column}:{" "}
+                              {issue.message}
+                            </li>
+                          ))}
+                      </Box>
+                    </Alert>
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          checked={importSkipInvalid}
+                          onChange={(e) =>
+                            setImportSkipInvalid(e.target.checked)
+                          }
+                        />
+                      }
+                      label="Leave out the rows with invalid values"
+                    />
+                  </>
                 )}
-              </Box>
-              <Box
-                sx={{ p: 2, borderTop: "1px solid #333", bgcolor: "#252526" }}
-              >
-                <Button
-                  fullWidth
-                  variant="contained"
-                  color="primary"
-                  startIcon={<RefreshIcon />}
-                  onClick={refreshTables}
-                >
-                  Refresh Data
-                </Button>
-              </Box>
-            </Paper>
-          </Box>
-        </Box>
 
-        {/* --- Modals --- */}
+                {api.isLoading("importRows") && importProgress && (
+                  <Box>
+                    <Typography variant="body2" sx={{ mb: 1 }}>
+                      Importing in one transaction: {importProgress.processed} /{" "}
+                      {importProgress.total} rows
+                    </Typography>
+                    <LinearProgress
+                      variant="determinate"
+                      value={
+                        (100 * importProgress.processed) / importProgress.total
+                      }
+                    />
+                  </Box>
+                )}
 
-        {/* Create Table Modal */}
-        <Dialog
-          open={isTableModalOpen}
-          onClose={() => setIsTableModalOpen(false)}
-          maxWidth="xs"
-          fullWidth
-        >
-          <DialogTitle>Create New Table</DialogTitle>
-          <DialogContent>
-            <TextField
-              autoFocus
-              margin="dense"
-              label="Table Name"
-              placeholder="e.g. products"
-              fullWidth
-              variant="outlined"
-              value={newTableName}
-              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                setNewTableName(e.target.value)
-              }
-            />
+                {importResult && importResult.errors.length === 0 && (
+                  <Alert severity="success">{importResult.message}</Alert>
+                )}
+                {importResult && importResult.errors.length > 0 && (
+                  <Alert
+                    severity="error"
+                    action={
+                      <Button color="inherit" onClick={skipFailedImportRows}>
+                        Leave Out
+                      </Button>
+                    }
+                  >
+                    {importResult.message} Nothing was written.
+                    <Box
+                      component="ul"
+                      sx={{ m: 0, pl: 2, maxHeight: 160, overflow: "auto" }}
+                    >
+                      {importResult.errors.map((e) => (
+                        <li key={e.index}>
+                          Row {importPlan.sourceRows[e.index] + 1}
+                          {e.column && `, ${e.column}`}: {e.message}
+                        </li>
+                      ))}
+                    </Box>
+                  </Alert>
+                )}
+              </Stack>
+            )}
           </DialogContent>
           <DialogActions sx={{ px: 3, pb: 3 }}>
-            <Button onClick={() => setIsTableModalOpen(false)} color="inherit">
-              Cancel
-            </Button>
-            <Button
-              onClick={createTable}
-              variant="contained"
-              disabled={api.loading}
-            >
-              Create Table
+            <Button onClick={() => setIsImportOpen(false)} color="inherit">
+              {importResult && importResult.errors.length === 0
+                ? "Close"
+                : "Cancel"}
             </Button>
+            {importStep > 0 && (
+              <Button
+                disabled={api.isLoading("importRows")}
+                onClick={() => {
+                  setImportResult(null);
+                  setImportStep(importStep - 1);
+                }}
+              >
+                Back
+              </Button>
+            )}
+            {importStep < IMPORT_STEPS.length - 1 ? (
+              <Button
+                variant="contained"
+                disabled={!canAdvanceImport}
+                onClick={nextImportStep}
+              >
+                Next
+              </Button>
+            ) : (
+              <Button
+                variant="contained"
+                startIcon={<UploadIcon />}
+                disabled={
+                  !importPlan ||
+                  importPlan.rows.length === 0 ||
+                  (importPlan.issues.length > 0 && !importSkipInvalid) ||
+                  api.isLoading("importRows") ||
+                  importResult?.errors.length === 0
+                }
+                onClick={runImport}
+              >
+                Import {importPlan?.rows.length ?? 0} Rows
+              </Button>
+            )}
           </DialogActions>
         </Dialog>
 
@@ -1345,37 +7258,27 @@ export default function App() {
           <DialogTitle>Add Column to {activeTable?.name}</DialogTitle>
           <DialogContent>
             <Stack spacing={3} sx={{ mt: 1 }}>
+              {columnFormError &&
+                !columnFormError.info.field?.startsWith("column.") && (
+                  <Alert severity="error">{columnFormError.message}</Alert>
+                )}
               <TextField
                 autoFocus
                 label="Column Name"
                 placeholder="e.g. price"
                 fullWidth
+                error={!!columnFieldError("name")}
+                helperText={columnFieldError("name")}
                 value={newColumnData.name}
                 onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
                   setNewColumnData({ ...newColumnData, name: e.target.value })
                 }
               />
-              <FormControl fullWidth>
-                <InputLabel>Data Type</InputLabel>
-                <Select
-                  value={newColumnData.type}
-                  label="Data Type"
-                  onChange={(e: SelectChangeEvent) =>
-                    setNewColumnData({ ...newColumnData, type: e.target.value })
-                  }
-                >
-                  {DATA_TYPES.map((dt) => (
-                    <MenuItem key={dt.value} value={dt.value}>
-                      <Box
-                        sx={{ display: "flex", alignItems: "center", gap: 1 }}
-                      >
-                        {dt.icon && <dt.icon fontSize="small" color="action" />}
-                        {dt.label} ({dt.value})
-                      </Box>
-                    </MenuItem>
-                  ))}
-                </Select>
-              </FormControl>
+              {renderTypeFields(
+                newColumnData.type,
+                (type) => setNewColumnData({ ...newColumnData, type }),
+                columnFieldError("type")
+              )}
 
               <Box sx={{ display: "flex", gap: 2 }}>
                 <FormControlLabel
@@ -1428,7 +7331,11 @@ export default function App() {
               {newColumnData.isForeignKey && (
                 <Paper variant="outlined" sx={{ p: 2, bgcolor: "grey.50" }}>
                   <Stack spacing={2}>
-                    <FormControl fullWidth size="small">
+                    <FormControl
+                      fullWidth
+                      size="small"
+                      error={!!columnFieldError("foreignKey.table")}
+                    >
                       <InputLabel>References Table</InputLabel>
                       <Select
                         value={newColumnData.fkTable}
@@ -1451,11 +7358,17 @@ export default function App() {
                             </MenuItem>
                           ))}
                       </Select>
+                      {columnFieldError("foreignKey.table") && (
+                        <FormHelperText>
+                          {columnFieldError("foreignKey.table")}
+                        </FormHelperText>
+                      )}
                     </FormControl>
                     <FormControl
                       fullWidth
                       size="small"
                       disabled={!newColumnData.fkTable}
+                      error={!!columnFieldError("foreignKey.column")}
                     >
                       <InputLabel>References Column</InputLabel>
                       <Select
@@ -1479,6 +7392,11 @@ export default function App() {
                             </MenuItem>
                           ))}
                       </Select>
+                      {columnFieldError("foreignKey.column") && (
+                        <FormHelperText>
+                          {columnFieldError("foreignKey.column")}
+                        </FormHelperText>
+                      )}
                     </FormControl>
                   </Stack>
                 </Paper>
@@ -1492,7 +7410,7 @@ export default function App() {
             <Button
               onClick={addColumn}
               variant="contained"
-              disabled={api.loading}
+              disabled={api.isLoading("addColumn")}
             >
               Add Column
             </Button>
@@ -1507,10 +7425,11 @@ export default function App() {
           fullWidth
         >
           <DialogTitle>
-            {editingRowId !== null ? "Edit Row" : "Insert New Row"}
+            {editingRowKey !== null ? "Edit Row" : "Insert New Row"}
           </DialogTitle>
           <DialogContent>
             <Stack spacing={2} sx={{ mt: 1 }}>
+              {rowFormError && <Alert severity="error">{rowFormError}</Alert>}
               {activeTable?.columns.map((col) => renderInput(col))}
             </Stack>
           </DialogContent>
@@ -1521,9 +7440,75 @@ export default function App() {
             <Button
               onClick={saveRow}
               variant="contained"
-              disabled={api.loading}
+              disabled={api.isLoading("lookupRows", "insertRow", "updateRow")}
+            >
+              {editingRowKey !== null ? "Update" : "Insert"}
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Delete Rows Confirmation */}
+        <Dialog
+          open={deleteCandidates !== null}
+          onClose={() => setDeleteCandidates(null)}
+          maxWidth="sm"
+          fullWidth
+        >
+          <DialogTitle>
+            Delete {deleteCandidates?.length}{" "}
+            {deleteCandidates?.length === 1 ? "row" : "rows"} from{" "}
+            {activeTable?.name}?
+          </DialogTitle>
+          <DialogContent>
+            <Stack spacing={2}>
+              <Typography variant="body2" color="text.secondary">
+                The following rows will be permanently removed:
+              </Typography>
+              <Paper
+                variant="outlined"
+                sx={{
+                  maxHeight: 200,
+                  overflowY: "auto",
+                  p: 1.5,
+                  bgcolor: "grey.50",
+                  fontFamily: "Monospace",
+                  fontSize: "0.8rem",
+                }}
+              >
+                {activeTable &&
+                  deleteCandidates?.map((row) => {
+                    const key = getRowKey(activeTable, row);
+                    return <Box key={rowKeyId(key)}>{formatRowKey(key)}</Box>;
+                  })}
+              </Paper>
+              {deleteReferences.map((ref) => (
+                <Alert
+                  key={`${ref.table}.${ref.columns.join(",")}`}
+                  severity={ref.onDelete === "CASCADE" ? "warning" : "error"}
+                >
+                  {ref.count} {ref.count === 1 ? "row" : "rows"} in{" "}
+                  <strong>{ref.table}</strong> reference these rows via{" "}
+                  {ref.columns.join(", ")}.{" "}
+                  {ref.onDelete === "CASCADE"
+                    ? "They will be deleted as well (ON DELETE CASCADE)."
+                    : ref.onDelete === "SET NULL"
+                    ? "Their references will be set to NULL."
+                    : "The delete will fail unless those rows are removed first."}
+                </Alert>
+              ))}
+            </Stack>
+          </DialogContent>
+          <DialogActions sx={{ px: 3, pb: 3 }}>
+            <Button onClick={() => setDeleteCandidates(null)} color="inherit">
+              Cancel
+            </Button>
+            <Button
+              onClick={confirmDelete}
+              variant="contained"
+              color="error"
+              disabled={api.isLoading("deleteRows")}
             >
-              {editingRowId !== null ? "Update" : "Insert"}
+              Delete
             </Button>
           </DialogActions>
         </Dialog>
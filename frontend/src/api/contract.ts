@@ -0,0 +1,156 @@
+// Development-time check that API responses match the OpenAPI document the
+// client types were generated from. A mismatch means the backend and
+// schema.d.ts have drifted: re-run backend/export_openapi.py and
+// `npm run generate:api`.
+
+import openapi from "./openapi.json";
+
+interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+}
+
+interface Operation {
+  responses?: Record<
+    string,
+    { content?: Record<string, { schema?: JsonSchema }> }
+  >;
+}
+
+const spec = openapi as unknown as {
+  paths: Record<string, Record<string, Operation>>;
+  components: { schemas: Record<string, JsonSchema> };
+};
+
+export class ContractError extends Error {
+  constructor(route: string, method: string, problem: string) {
+    super(
+      `API contract mismatch in ${method.toUpperCase()} ${route}: ${problem}`
+    );
+    this.name = "ContractError";
+  }
+}
+
+const resolve = (schema: JsonSchema): JsonSchema => {
+  if (!schema.$ref) return schema;
+  const name = schema.$ref.replace("#/components/schemas/", "");
+  const target = spec.components.schemas[name];
+  if (!target) throw new Error(`Unknown schema reference ${schema.$ref}`);
+  return resolve(target);
+};
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string) => {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+};
+
+// Returns a description of the first mismatch, or null when the value fits
+const findMismatch = (
+  value: unknown,
+  raw: JsonSchema,
+  path: string
+): string | null => {
+  const schema = resolve(raw);
+
+  const alternatives = schema.anyOf || schema.oneOf;
+  if (alternatives) {
+    const fits = alternatives.some(
+      (alt) => findMismatch(value, alt, path) === null
+    );
+    return fits ? null : `${path} does not match any allowed shape`;
+  }
+  if (schema.allOf) {
+    for (const part of schema.allOf) {
+      const problem = findMismatch(value, part, path);
+      if (problem) return problem;
+    }
+  }
+
+  if ("const" in schema && value !== schema.const) {
+    return `${path} should be ${JSON.stringify(schema.const)}`;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return `${path} should be one of ${schema.enum.join(
+      ", "
+    )}, got ${JSON.stringify(value)}`;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      return `${path} should be ${types.join(" | ")}, got ${typeOf(value)}`;
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    for (let i = 0; i < value.length; i++) {
+      const problem = findMismatch(value[i], schema.items, `${path}[${i}]`);
+      if (problem) return problem;
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in record)) return `${path}.${key} is missing`;
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const propSchema = schema.properties?.[key];
+      if (propSchema) {
+        const problem = findMismatch(item, propSchema, `${path}.${key}`);
+        if (problem) return problem;
+      } else if (schema.additionalProperties === false) {
+        return `${path}.${key} is not in the schema`;
+      } else if (typeof schema.additionalProperties === "object") {
+        const problem = findMismatch(
+          item,
+          schema.additionalProperties,
+          `${path}.${key}`
+        );
+        if (problem) return problem;
+      }
+    }
+  }
+
+  return null;
+};
+
+// Throws a ContractError when `data` doesn't fit the documented 2xx response.
+// For an event stream, `data` is one event and `mediaType` the stream's.
+export const checkResponse = (
+  route: string,
+  method: string,
+  status: number,
+  data: unknown,
+  mediaType = "application/json"
+) => {
+  const operation = spec.paths[route]?.[method];
+  if (!operation) {
+    throw new ContractError(route, method, "operation is not in openapi.json");
+  }
+  const response =
+    operation.responses?.[String(status)] || operation.responses?.["200"];
+  const schema = response?.content?.[mediaType]?.schema;
+  if (!schema) return;
+
+  const problem = findMismatch(data, schema, "response");
+  if (problem) throw new ContractError(route, method, problem);
+};
@@ -0,0 +1,2499 @@
+/**
+ * This file was auto-generated by openapi-typescript.
+ * Do not make direct changes to the file.
+ */
+
+export interface paths {
+    "/": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Read Root */
+        get: operations["read_root__get"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/tables": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get Tables */
+        get: operations["get_tables_tables_get"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/tables/{table_name}/schema": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get Table Schema
+         * @description Columns and constraints only, without touching the rows.
+         */
+        get: operations["get_table_schema_tables__table_name__schema_get"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/schemas": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get Table Schemas
+         * @description Every table's schema in one request, in the order of GET /tables.
+         */
+        get: operations["get_table_schemas_schemas_get"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/tables/{table_name}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get Table Data */
+        get: operations["get_table_data_tables__table_name__get"];
+        put?: never;
+        post?: never;
+        /** Drop Table */
+        delete: operations["drop_table_tables__table_name__delete"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/tables/{table_name}/lookup": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Lookup Rows
+         * @description Options for foreign key pickers: key values of `column` in the referenced
+         *     table, each paired with a human readable label column.
+         *     Pass `value` to check whether one exact key exists.
+         */
+        get: operations["lookup_rows_tables__table_name__lookup_get"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/create-table": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Create Table */
+        post: operations["create_table_create_table_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/add-column": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Add Column */
+        post: operations["add_column_add_column_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/alter-table": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Alter Table
+         * @description Renames the table, or renames, retypes or drops one of its columns, or
+         *     changes the column's NOT NULL or default. With preview, returns the DDL
+         *     and the rows it would fail on without running it.
+         */
+        post: operations["alter_table_alter_table_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/types": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get Types
+         * @description Types defined in the database that columns can use besides the built-in ones.
+         */
+        get: operations["get_types_types_get"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/types/create": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Create Type */
+        post: operations["create_type_types_create_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/types/alter": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Alter Type
+         * @description Renames an enum or domain, or adds or renames one of an enum's values.
+         *     Columns of the type see the change right away.
+         */
+        post: operations["alter_type_types_alter_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/types/{type_name}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /**
+         * Drop Type
+         * @description Drops an enum or domain that no column uses.
+         */
+        delete: operations["drop_type_types__type_name__delete"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/tables/{table_name}/indexes": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get Indexes
+         * @description The table's indexes with their key columns, method and size on disk.
+         */
+        get: operations["get_indexes_tables__table_name__indexes_get"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/indexes/create": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Create Index */
+        post: operations["create_index_indexes_create_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/tables/{table_name}/indexes/{index_name}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Drop Index */
+        delete: operations["drop_index_tables__table_name__indexes__index_name__delete"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/schema/export": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Export Schema
+         * @description Every table, referenced tables first, as a schema document and as the
+         *     SQL script that creates it.
+         */
+        get: operations["export_schema_schema_export_get"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/schema/import": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Import Schema
+         * @description Creates the tables of a schema document in one transaction. Tables that
+         *     already exist are reported in `conflicts`; whether the others are still
+         *     created depends on `onConflict`. Any failure rolls everything back.
+         */
+        post: operations["import_schema_schema_import_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/migrations": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get Migrations
+         * @description Recorded schema changes, oldest first.
+         */
+        get: operations["get_migrations_migrations_get"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/migrations/rollback": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Rollback Migrations
+         * @description Returns the schema to `version` by running the down SQL of every later
+         *     migration, newest first, in one transaction. If any of it fails, nothing
+         *     is rolled back.
+         */
+        post: operations["rollback_migrations_migrations_rollback_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/migrations/export": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Export Migrations
+         * @description The history as migration files: 0001_create_table_users.up.sql and
+         *     0001_create_table_users.down.sql, and so on.
+         */
+        get: operations["export_migrations_migrations_export_get"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/rows/insert": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Insert Row */
+        post: operations["insert_row_rows_insert_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/rows/update": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Update Row */
+        post: operations["update_row_rows_update_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/rows/references": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Get Row References
+         * @description Counts the rows in other tables whose foreign keys point at the given rows,
+         *     so the UI can warn before a delete that would fail or cascade.
+         */
+        post: operations["get_row_references_rows_references_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/rows/delete": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Delete Rows */
+        post: operations["delete_rows_rows_delete_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/rows/batch": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Batch Mutations
+         * @description Applies inserts, updates and deletes, across any tables, in a single
+         *     transaction. If one operation fails nothing is applied: the error names
+         *     it in `operation`, and its `field` is prefixed "operations.<index>.".
+         */
+        post: operations["batch_mutations_rows_batch_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/rows/import": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Import Rows
+         * @description Inserts many rows in one transaction, creating the table first when asked.
+         *     Each row runs under a savepoint so one bad row doesn't hide the next: the
+         *     result lists every failing row (up to MAX_IMPORT_ERRORS), and if there
+         *     are any the whole import, table included, is rolled back.
+         *     The response is a stream of ImportEvent lines: progress after every
+         *     IMPORT_BATCH_SIZE rows, then the result. A request that fails before any
+         *     row is inserted gets a normal error response instead.
+         */
+        post: operations["import_rows_rows_import_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/query/run": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Run Query */
+        post: operations["run_query_query_run_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/query/join": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Query Join
+         * @description Runs a chain of joins: baseTable, then each step joined on one or more key
+         *     pairs, returning every column as "table.column".
+         */
+        post: operations["query_join_query_join_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/tables/{table_name}/export": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Export Table
+         * @description Every row of a table matching the grid's filters and sort, not just one
+         *     page. Takes the same filter and sort parameters as GET /tables/{table_name}.
+         */
+        get: operations["export_table_tables__table_name__export_get"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/query/export": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Export Query
+         * @description The full result of a structured query, ignoring its limit and offset.
+         */
+        post: operations["export_query_query_export_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/sql/execute": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Execute Sql
+         * @description Runs SQL typed into the console. In "read" mode it must be a single
+         *     query, and it runs on a session made read-only (so a COMMIT inside it
+         *     can't start a writable transaction) in a transaction that is always
+         *     rolled back: Postgres itself rejects any write that slips past the checks.
+         */
+        post: operations["execute_sql_sql_execute_post"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+}
+export type webhooks = Record<string, never>;
+export interface components {
+    schemas: {
+        /** AddColumnRequest */
+        AddColumnRequest: {
+            /** Table Name */
+            table_name: string;
+            column: components["schemas"]["ColumnDef"];
+        };
+        /** AlterTableRequest */
+        AlterTableRequest: {
+            /** Table Name */
+            table_name: string;
+            /**
+             * Action
+             * @enum {string}
+             */
+            action: "rename_table" | "rename_column" | "set_type" | "drop_column" | "set_nullable" | "set_default";
+            /** Column */
+            column?: string | null;
+            /** Newname */
+            newName?: string | null;
+            /** Type */
+            type?: string | null;
+            /** Nullable */
+            nullable?: boolean | null;
+            /** Default */
+            default?: string | null;
+            /**
+             * Preview
+             * @default false
+             */
+            preview: boolean;
+        };
+        /** AlterTableResponse */
+        AlterTableResponse: {
+            /** Message */
+            message: string;
+            /** Statements */
+            statements: components["schemas"]["ExecutedStatement"][];
+            /** Sql */
+            sql: string;
+            /** Applied */
+            applied: boolean;
+            /** Blockingrows */
+            blockingRows: {
+                [key: string]: unknown;
+            }[];
+            /** Blockingcount */
+            blockingCount: number;
+        };
+        /** AlterTypeRequest */
+        AlterTypeRequest: {
+            /** Name */
+            name: string;
+            /**
+             * Action
+             * @enum {string}
+             */
+            action: "rename_type" | "add_value" | "rename_value";
+            /** Newname */
+            newName?: string | null;
+            /** Value */
+            value?: string | null;
+            /** Before */
+            before?: string | null;
+        };
+        /** BatchOperation */
+        BatchOperation: {
+            /**
+             * Op
+             * @enum {string}
+             */
+            op: "insert" | "update" | "delete";
+            /** Table Name */
+            table_name: string;
+            /**
+             * Data
+             * @default {}
+             */
+            data: {
+                [key: string]: unknown;
+            };
+            /** Key */
+            key?: {
+                [key: string]: unknown;
+            } | null;
+            /**
+             * Keys
+             * @default []
+             */
+            keys: {
+                [key: string]: unknown;
+            }[];
+        };
+        /** BatchOperationResult */
+        BatchOperationResult: {
+            /** Op */
+            op: string;
+            /** Table Name */
+            table_name: string;
+            /** Message */
+            message: string;
+            /** Rowcount */
+            rowCount: number;
+        };
+        /** BatchRequest */
+        BatchRequest: {
+            /** Operations */
+            operations: components["schemas"]["BatchOperation"][];
+        };
+        /** BatchResponse */
+        BatchResponse: {
+            /** Message */
+            message: string;
+            /** Statements */
+            statements: components["schemas"]["ExecutedStatement"][];
+            /** Results */
+            results: components["schemas"]["BatchOperationResult"][];
+        };
+        /** CheckConstraintDef */
+        CheckConstraintDef: {
+            /** Name */
+            name?: string | null;
+            /** Expression */
+            expression: string;
+        };
+        /** ColumnDef */
+        ColumnDef: {
+            /** Name */
+            name: string;
+            /** Type */
+            type: string;
+            /**
+             * Isprimary
+             * @default false
+             */
+            isPrimary: boolean;
+            /**
+             * Isforeignkey
+             * @default false
+             */
+            isForeignKey: boolean;
+            foreignKey?: components["schemas"]["ForeignKeyDef"] | null;
+            /**
+             * Isunique
+             * @default false
+             */
+            isUnique: boolean;
+            /**
+             * Nullable
+             * @default true
+             */
+            nullable: boolean;
+            /** Default */
+            default?: string | null;
+            /** Enumvalues */
+            enumValues?: string[] | null;
+        };
+        /** ColumnRef */
+        ColumnRef: {
+            /** Table */
+            table: string;
+            /** Column */
+            column: string;
+            /** Aggregate */
+            aggregate?: ("count" | "sum" | "avg" | "min" | "max") | null;
+        };
+        /** Condition */
+        Condition: {
+            /** Table */
+            table: string;
+            /** Column */
+            column: string;
+            /** Aggregate */
+            aggregate?: ("count" | "sum" | "avg" | "min" | "max") | null;
+            /**
+             * Operator
+             * @default eq
+             * @enum {string}
+             */
+            operator: "eq" | "neq" | "lt" | "lte" | "gt" | "gte" | "like" | "ilike" | "in" | "is_null" | "is_not_null";
+            /** Value */
+            value?: unknown;
+        };
+        /** ConditionGroup */
+        ConditionGroup: {
+            /**
+             * Combinator
+             * @default and
+             * @enum {string}
+             */
+            combinator: "and" | "or";
+            /**
+             * Conditions
+             * @default []
+             */
+            conditions: components["schemas"]["Condition"][];
+            /**
+             * Groups
+             * @default []
+             */
+            groups: components["schemas"]["ConditionGroup"][];
+        };
+        /** CreateIndexRequest */
+        CreateIndexRequest: {
+            /** Table Name */
+            table_name: string;
+            /** Columns */
+            columns: string[];
+            /** Name */
+            name?: string | null;
+            /**
+             * Method
+             * @default btree
+             * @enum {string}
+             */
+            method: "btree" | "gin";
+            /**
+             * Unique
+             * @default false
+             */
+            unique: boolean;
+            /** Where */
+            where?: string | null;
+        };
+        /** CreateTableRequest */
+        CreateTableRequest: {
+            /** Table Name */
+            table_name: string;
+            /** Columns */
+            columns: components["schemas"]["ColumnDef"][];
+        };
+        /** CreateTypeRequest */
+        CreateTypeRequest: {
+            /** Name */
+            name: string;
+            /**
+             * Kind
+             * @enum {string}
+             */
+            kind: "enum" | "domain";
+            /**
+             * Values
+             * @default []
+             */
+            values: string[];
+            /** Basetype */
+            baseType?: string | null;
+            /**
+             * Nullable
+             * @default true
+             */
+            nullable: boolean;
+            /** Default */
+            default?: string | null;
+            /** Check */
+            check?: string | null;
+        };
+        /** DeleteRowsRequest */
+        DeleteRowsRequest: {
+            /** Table Name */
+            table_name: string;
+            /** Keys */
+            keys: {
+                [key: string]: unknown;
+            }[];
+        };
+        /** DeleteRowsResponse */
+        DeleteRowsResponse: {
+            /** Message */
+            message: string;
+            /** Statements */
+            statements: components["schemas"]["ExecutedStatement"][];
+            /** Deleted */
+            deleted: number;
+        };
+        /** DomainTypeDef */
+        DomainTypeDef: {
+            /** Name */
+            name: string;
+            /** Basetype */
+            baseType: string;
+            /** Nullable */
+            nullable: boolean;
+            /** Default */
+            default?: string | null;
+            /** Checks */
+            checks: components["schemas"]["CheckConstraintDef"][];
+            /** Usedby */
+            usedBy: string[];
+        };
+        /** EnumTypeDef */
+        EnumTypeDef: {
+            /** Name */
+            name: string;
+            /** Values */
+            values: string[];
+            /** Usedby */
+            usedBy: string[];
+        };
+        /** ErrorInfo */
+        ErrorInfo: {
+            /**
+             * Code
+             * @enum {string}
+             */
+            code: "bad_request" | "not_found" | "conflict" | "forbidden" | "validation_error" | "database_error";
+            /** Message */
+            message: string;
+            /** Table */
+            table?: string | null;
+            /** Column */
+            column?: string | null;
+            /** Field */
+            field?: string | null;
+            /** Row */
+            row?: {
+                [key: string]: unknown;
+            } | null;
+            /** Dberror */
+            dbError?: string | null;
+            /** Constraint */
+            constraint?: string | null;
+            /** Operation */
+            operation?: number | null;
+            /** Version */
+            version?: number | null;
+        };
+        /** ErrorResponse */
+        ErrorResponse: {
+            /** Detail */
+            detail: string;
+            error: components["schemas"]["ErrorInfo"];
+        };
+        /** ExecutedStatement */
+        ExecutedStatement: {
+            /** Sql */
+            sql: string;
+            /** Durationms */
+            durationMs: number;
+            /** Rowcount */
+            rowCount: number;
+        };
+        /** ForeignKeyDef */
+        ForeignKeyDef: {
+            /** Table */
+            table: string;
+            /** Column */
+            column: string;
+        };
+        /** ImportEvent */
+        ImportEvent: {
+            progress?: components["schemas"]["ImportProgress"] | null;
+            result?: components["schemas"]["ImportResponse"] | null;
+            error?: components["schemas"]["ErrorInfo"] | null;
+            /** Status */
+            status?: number | null;
+        };
+        /** ImportProgress */
+        ImportProgress: {
+            /** Processed */
+            processed: number;
+            /** Total */
+            total: number;
+        };
+        /** ImportRequest */
+        ImportRequest: {
+            /** Table Name */
+            table_name: string;
+            /** Rows */
+            rows: {
+                [key: string]: unknown;
+            }[];
+            /** Create */
+            create?: components["schemas"]["ColumnDef"][] | null;
+        };
+        /** ImportResponse */
+        ImportResponse: {
+            /** Message */
+            message: string;
+            /** Statements */
+            statements: components["schemas"]["ExecutedStatement"][];
+            /** Inserted */
+            inserted: number;
+            /** Errors */
+            errors: components["schemas"]["ImportRowError"][];
+        };
+        /** ImportRowError */
+        ImportRowError: {
+            /** Index */
+            index: number;
+            /** Message */
+            message: string;
+            /** Column */
+            column?: string | null;
+            /** Dberror */
+            dbError?: string | null;
+        };
+        /** IndexDef */
+        IndexDef: {
+            /** Name */
+            name?: string | null;
+            /** Columns */
+            columns: string[];
+            /**
+             * Unique
+             * @default false
+             */
+            unique: boolean;
+        };
+        /** IndexInfo */
+        IndexInfo: {
+            /** Name */
+            name: string;
+            /** Columns */
+            columns: string[];
+            /** Unique */
+            unique: boolean;
+            /** Primary */
+            primary: boolean;
+            /** Method */
+            method: string;
+            /** Predicate */
+            predicate?: string | null;
+            /** Sizebytes */
+            sizeBytes: number;
+            /** Definition */
+            definition: string;
+            /** Constraint */
+            constraint?: string | null;
+        };
+        /** JoinKeyPair */
+        JoinKeyPair: {
+            /** Lefttable */
+            leftTable: string;
+            /** Leftcolumn */
+            leftColumn: string;
+            /** Rightcolumn */
+            rightColumn: string;
+        };
+        /** JoinRequest */
+        JoinRequest: {
+            /** Basetable */
+            baseTable: string;
+            /** Joins */
+            joins: components["schemas"]["JoinStep"][];
+        };
+        /** JoinStep */
+        JoinStep: {
+            /** Table */
+            table: string;
+            /**
+             * Type
+             * @default inner
+             * @enum {string}
+             */
+            type: "inner" | "left" | "right" | "full";
+            /** Keys */
+            keys: components["schemas"]["JoinKeyPair"][];
+        };
+        /** LookupOption */
+        LookupOption: {
+            /** Value */
+            value: unknown;
+            /** Label */
+            label?: unknown;
+        };
+        /** LookupResponse */
+        LookupResponse: {
+            /** Labelcolumn */
+            labelColumn?: string | null;
+            /** Options */
+            options: components["schemas"]["LookupOption"][];
+        };
+        /** Migration */
+        Migration: {
+            /** Version */
+            version: number;
+            /** Description */
+            description: string;
+            /** Upsql */
+            upSql: string;
+            /** Downsql */
+            downSql: string;
+            /**
+             * Appliedat
+             * Format: date-time
+             */
+            appliedAt: string;
+        };
+        /** MigrationHistory */
+        MigrationHistory: {
+            /** Version */
+            version: number;
+            /** Migrations */
+            migrations: components["schemas"]["Migration"][];
+        };
+        /** MutationResponse */
+        MutationResponse: {
+            /** Message */
+            message: string;
+            /** Statements */
+            statements: components["schemas"]["ExecutedStatement"][];
+        };
+        /** OrderByItem */
+        OrderByItem: {
+            /** Table */
+            table: string;
+            /** Column */
+            column: string;
+            /** Aggregate */
+            aggregate?: ("count" | "sum" | "avg" | "min" | "max") | null;
+            /**
+             * Direction
+             * @default asc
+             * @enum {string}
+             */
+            direction: "asc" | "desc";
+        };
+        /** QueryRequest */
+        QueryRequest: {
+            /** Basetable */
+            baseTable: string;
+            /** Joins */
+            joins: components["schemas"]["JoinStep"][];
+            /**
+             * Columns
+             * @default []
+             */
+            columns: components["schemas"]["SelectColumn"][];
+            where?: components["schemas"]["ConditionGroup"] | null;
+            /**
+             * Groupby
+             * @default []
+             */
+            groupBy: components["schemas"]["ColumnRef"][];
+            having?: components["schemas"]["ConditionGroup"] | null;
+            /**
+             * Orderby
+             * @default []
+             */
+            orderBy: components["schemas"]["OrderByItem"][];
+            /**
+             * Limit
+             * @default 100
+             */
+            limit: number;
+            /**
+             * Offset
+             * @default 0
+             */
+            offset: number;
+        };
+        /** QueryResponse */
+        QueryResponse: {
+            /** Sql */
+            sql: string;
+            /** Columns */
+            columns: string[];
+            /** Rows */
+            rows: {
+                [key: string]: unknown;
+            }[];
+            /** Statements */
+            statements: components["schemas"]["ExecutedStatement"][];
+        };
+        /** RollbackRequest */
+        RollbackRequest: {
+            /** Version */
+            version: number;
+        };
+        /** RollbackResponse */
+        RollbackResponse: {
+            /** Message */
+            message: string;
+            /** Statements */
+            statements: components["schemas"]["ExecutedStatement"][];
+            /** Version */
+            version: number;
+            /** Rolledback */
+            rolledBack: number[];
+        };
+        /** RowOperationRequest */
+        RowOperationRequest: {
+            /** Table Name */
+            table_name: string;
+            /** Data */
+            data: {
+                [key: string]: unknown;
+            };
+            /** Key */
+            key?: {
+                [key: string]: unknown;
+            } | null;
+        };
+        /** RowReference */
+        RowReference: {
+            /** Table */
+            table: string;
+            /** Columns */
+            columns: string[];
+            /** Referredcolumns */
+            referredColumns: string[];
+            /** Ondelete */
+            onDelete?: string | null;
+            /** Count */
+            count: number;
+        };
+        /** SchemaConflict */
+        SchemaConflict: {
+            /** Table */
+            table: string;
+            /** Message */
+            message: string;
+            /** Identical */
+            identical: boolean;
+        };
+        /** SchemaExport */
+        SchemaExport: {
+            /**
+             * Version
+             * @default 1
+             */
+            version: number;
+            /** Tables */
+            tables: components["schemas"]["SchemaTable"][];
+            /** Sql */
+            sql: string;
+            /** Warnings */
+            warnings: string[];
+        };
+        /** SchemaImportRequest */
+        SchemaImportRequest: {
+            /**
+             * Version
+             * @default 1
+             */
+            version: number;
+            /** Tables */
+            tables: components["schemas"]["SchemaTable"][];
+            /**
+             * Onconflict
+             * @default abort
+             * @enum {string}
+             */
+            onConflict: "abort" | "skip";
+        };
+        /** SchemaImportResponse */
+        SchemaImportResponse: {
+            /** Message */
+            message: string;
+            /** Statements */
+            statements: components["schemas"]["ExecutedStatement"][];
+            /** Created */
+            created: string[];
+            /** Conflicts */
+            conflicts: components["schemas"]["SchemaConflict"][];
+        };
+        /** SchemaTable */
+        SchemaTable: {
+            /** Table Name */
+            table_name: string;
+            /** Columns */
+            columns: components["schemas"]["ColumnDef"][];
+            /**
+             * Uniqueconstraints
+             * @default []
+             */
+            uniqueConstraints: components["schemas"]["UniqueConstraintDef"][];
+            /**
+             * Checkconstraints
+             * @default []
+             */
+            checkConstraints: components["schemas"]["CheckConstraintDef"][];
+            /**
+             * Indexes
+             * @default []
+             */
+            indexes: components["schemas"]["IndexDef"][];
+        };
+        /** SelectColumn */
+        SelectColumn: {
+            /** Table */
+            table: string;
+            /** Column */
+            column: string;
+            /** Aggregate */
+            aggregate?: ("count" | "sum" | "avg" | "min" | "max") | null;
+            /** Alias */
+            alias?: string | null;
+        };
+        /** ServerInfo */
+        ServerInfo: {
+            /** Status */
+            status: string;
+            /** Service */
+            service: string;
+            /** Database */
+            database?: string | null;
+        };
+        /** SqlExecuteRequest */
+        SqlExecuteRequest: {
+            /** Sql */
+            sql: string;
+            /**
+             * Mode
+             * @default read
+             * @enum {string}
+             */
+            mode: "read" | "write";
+        };
+        /** SqlExecuteResponse */
+        SqlExecuteResponse: {
+            /** Statement */
+            statement: string;
+            /** Columns */
+            columns: string[];
+            /** Rows */
+            rows: {
+                [key: string]: unknown;
+            }[];
+            /** Rowcount */
+            rowCount: number;
+            /** Truncated */
+            truncated: boolean;
+            /** Durationms */
+            durationMs: number;
+            /** Statements */
+            statements: components["schemas"]["ExecutedStatement"][];
+        };
+        /** TableResponse */
+        TableResponse: {
+            /** Id */
+            id: string;
+            /** Name */
+            name: string;
+            /** Columns */
+            columns: components["schemas"]["ColumnDef"][];
+            /** Uniqueconstraints */
+            uniqueConstraints: components["schemas"]["UniqueConstraintDef"][];
+            /** Checkconstraints */
+            checkConstraints: components["schemas"]["CheckConstraintDef"][];
+            /** Rows */
+            rows: {
+                [key: string]: unknown;
+            }[];
+            /** Total */
+            total: number;
+            /** Page */
+            page: number;
+            /** Page Size */
+            page_size: number;
+        };
+        /** TableSchema */
+        TableSchema: {
+            /** Id */
+            id: string;
+            /** Name */
+            name: string;
+            /** Columns */
+            columns: components["schemas"]["ColumnDef"][];
+            /** Uniqueconstraints */
+            uniqueConstraints: components["schemas"]["UniqueConstraintDef"][];
+            /** Checkconstraints */
+            checkConstraints: components["schemas"]["CheckConstraintDef"][];
+        };
+        /** TypeCatalog */
+        TypeCatalog: {
+            /** Enums */
+            enums: components["schemas"]["EnumTypeDef"][];
+            /** Domains */
+            domains: components["schemas"]["DomainTypeDef"][];
+        };
+        /** UniqueConstraintDef */
+        UniqueConstraintDef: {
+            /** Name */
+            name?: string | null;
+            /** Columns */
+            columns: string[];
+        };
+    };
+    responses: never;
+    parameters: never;
+    requestBodies: never;
+    headers: never;
+    pathItems: never;
+}
+export type $defs = Record<string, never>;
+export interface operations {
+    read_root__get: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ServerInfo"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    get_tables_tables_get: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": string[];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    get_table_schema_tables__table_name__schema_get: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                table_name: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["TableSchema"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    get_table_schemas_schemas_get: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["TableSchema"][];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    get_table_data_tables__table_name__get: {
+        parameters: {
+            query?: {
+                page?: number;
+                page_size?: number;
+                sort_by?: string | null;
+                sort_dir?: string;
+                filters?: string | null;
+            };
+            header?: never;
+            path: {
+                table_name: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["TableResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    drop_table_tables__table_name__delete: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                table_name: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MutationResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    lookup_rows_tables__table_name__lookup_get: {
+        parameters: {
+            query: {
+                column: string;
+                search?: string | null;
+                value?: string | null;
+                label_column?: string | null;
+                limit?: number;
+            };
+            header?: never;
+            path: {
+                table_name: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LookupResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    create_table_create_table_post: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["CreateTableRequest"];
+            };
+        };
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MutationResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    add_column_add_column_post: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["AddColumnRequest"];
+            };
+        };
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MutationResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    alter_table_alter_table_post: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["AlterTableRequest"];
+            };
+        };
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AlterTableResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    get_types_types_get: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["TypeCatalog"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    create_type_types_create_post: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["CreateTypeRequest"];
+            };
+        };
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MutationResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    alter_type_types_alter_post: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["AlterTypeRequest"];
+            };
+        };
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MutationResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    drop_type_types__type_name__delete: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                type_name: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MutationResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    get_indexes_tables__table_name__indexes_get: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                table_name: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["IndexInfo"][];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    create_index_indexes_create_post: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["CreateIndexRequest"];
+            };
+        };
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MutationResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    drop_index_tables__table_name__indexes__index_name__delete: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                table_name: string;
+                index_name: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MutationResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    export_schema_schema_export_get: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SchemaExport"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    import_schema_schema_import_post: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SchemaImportRequest"];
+            };
+        };
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SchemaImportResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    get_migrations_migrations_get: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MigrationHistory"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    rollback_migrations_migrations_rollback_post: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["RollbackRequest"];
+            };
+        };
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["RollbackResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    export_migrations_migrations_export_get: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description A zip of numbered up and down SQL files. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/zip": string;
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    insert_row_rows_insert_post: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["RowOperationRequest"];
+            };
+        };
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MutationResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    update_row_rows_update_post: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["RowOperationRequest"];
+            };
+        };
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MutationResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    get_row_references_rows_references_post: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["DeleteRowsRequest"];
+            };
+        };
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["RowReference"][];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    delete_rows_rows_delete_post: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["DeleteRowsRequest"];
+            };
+        };
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["DeleteRowsResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    batch_mutations_rows_batch_post: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["BatchRequest"];
+            };
+        };
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BatchResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    import_rows_rows_import_post: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ImportRequest"];
+            };
+        };
+        responses: {
+            /** @description Progress events, then the result or an error. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/x-ndjson": components["schemas"]["ImportEvent"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    run_query_query_run_post: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["QueryRequest"];
+            };
+        };
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["QueryResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    query_join_query_join_post: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["JoinRequest"];
+            };
+        };
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        [key: string]: unknown;
+                    }[];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    export_table_tables__table_name__export_get: {
+        parameters: {
+            query?: {
+                format?: "csv" | "json" | "sql";
+                sort_by?: string | null;
+                sort_dir?: string;
+                filters?: string | null;
+            };
+            header?: never;
+            path: {
+                table_name: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description The full result as CSV, a JSON array of rows, or INSERT statements. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "text/csv": string;
+                    "application/json": string;
+                    "application/sql": string;
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    export_query_query_export_post: {
+        parameters: {
+            query?: {
+                format?: "csv" | "json" | "sql";
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["QueryRequest"];
+            };
+        };
+        responses: {
+            /** @description The full result as CSV, a JSON array of rows, or INSERT statements. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "text/csv": string;
+                    "application/json": string;
+                    "application/sql": string;
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    execute_sql_sql_execute_post: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SqlExecuteRequest"];
+            };
+        };
+        responses: {
+            /** @description Successful Response */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SqlExecuteResponse"];
+                };
+            };
+            /** @description Error */
+            "4XX": {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+}
@@ -1,155 +1,1078 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
+import type { components, paths } from "../api/schema";
 
-// --- Types matching Backend Pydantic Models ---
+// --- Types generated from the backend OpenAPI schema ---
+// Regenerate with `python backend/export_openapi.py` then `npm run generate:api`.
 
-export interface ForeignKeyDef {
-  table: string;
+type Schemas = components["schemas"];
+
+export type ForeignKeyDef = Schemas["ForeignKeyDef"];
+export type ColumnDef = Schemas["ColumnDef"];
+export type UniqueConstraintDef = Schemas["UniqueConstraintDef"];
+export type CheckConstraintDef = Schemas["CheckConstraintDef"];
+export type CreateTableRequest = Schemas["CreateTableRequest"];
+export type AddColumnRequest = Schemas["AddColumnRequest"];
+export type AlterTableRequest = Schemas["AlterTableRequest"];
+export type AlterAction = AlterTableRequest["action"];
+export type AlterTableResponse = Schemas["AlterTableResponse"];
+export type RowOperationRequest = Schemas["RowOperationRequest"];
+export type DeleteRowsRequest = Schemas["DeleteRowsRequest"];
+export type ExecutedStatement = Schemas["ExecutedStatement"];
+export type MutationResponse = Schemas["MutationResponse"];
+export type DeleteRowsResponse = Schemas["DeleteRowsResponse"];
+export type BatchOperation = Schemas["BatchOperation"];
+export type BatchRequest = Schemas["BatchRequest"];
+export type BatchOperationResult = Schemas["BatchOperationResult"];
+export type BatchResponse = Schemas["BatchResponse"];
+export type ImportRequest = Schemas["ImportRequest"];
+export type ImportRowError = Schemas["ImportRowError"];
+export type ImportResponse = Schemas["ImportResponse"];
+export type ImportProgress = Schemas["ImportProgress"];
+export type IndexDef = Schemas["IndexDef"];
+export type SchemaTable = Schemas["SchemaTable"];
+export type SchemaExport = Schemas["SchemaExport"];
+// Only ever sent or received as part of the two models around it
+export type SchemaDocument = Pick<SchemaExport, "version" | "tables">;
+export type SchemaImportRequest = Schemas["SchemaImportRequest"];
+export type SchemaConflict = Schemas["SchemaConflict"];
+export type SchemaImportResponse = Schemas["SchemaImportResponse"];
+export type Migration = Schemas["Migration"];
+export type MigrationHistory = Schemas["MigrationHistory"];
+export type RollbackResponse = Schemas["RollbackResponse"];
+export type RowReference = Schemas["RowReference"];
+export type IndexInfo = Schemas["IndexInfo"];
+export type CreateIndexRequest = Schemas["CreateIndexRequest"];
+export type IndexMethod = CreateIndexRequest["method"];
+export type EnumTypeDef = Schemas["EnumTypeDef"];
+export type DomainTypeDef = Schemas["DomainTypeDef"];
+export type TypeCatalog = Schemas["TypeCatalog"];
+export type CreateTypeRequest = Schemas["CreateTypeRequest"];
+export type AlterTypeRequest = Schemas["AlterTypeRequest"];
+export type AlterTypeAction = AlterTypeRequest["action"];
+export type LookupOption = Schemas["LookupOption"];
+export type LookupResponse = Schemas["LookupResponse"];
+export type JoinKeyPair = Schemas["JoinKeyPair"];
+export type JoinStep = Schemas["JoinStep"];
+export type JoinType = JoinStep["type"];
+export type JoinRequest = Schemas["JoinRequest"];
+export type ColumnRef = Schemas["ColumnRef"];
+export type Aggregate = NonNullable<ColumnRef["aggregate"]>;
+export type SelectColumn = Schemas["SelectColumn"];
+export type Condition = Schemas["Condition"];
+export type Operator = Condition["operator"];
+export type ConditionGroup = Schemas["ConditionGroup"];
+export type OrderByItem = Schemas["OrderByItem"];
+export type SortDirection = OrderByItem["direction"];
+export type QueryRequest = Schemas["QueryRequest"];
+export type QueryResponse = Schemas["QueryResponse"];
+export type SqlExecuteRequest = Schemas["SqlExecuteRequest"];
+export type SqlMode = SqlExecuteRequest["mode"];
+export type SqlExecuteResponse = Schemas["SqlExecuteResponse"];
+export type ServerInfo = Schemas["ServerInfo"];
+export type TableSchema = Schemas["TableSchema"];
+export type TableResponse = Schemas["TableResponse"];
+export type ExportFormat = NonNullable<
+  NonNullable<paths["/query/export"]["post"]["parameters"]["query"]>["format"]
+>;
+
+// --- Errors ---
+
+// The server's ErrorInfo, plus the failures that never reach it
+export type ApiErrorInfo = Omit<Schemas["ErrorInfo"], "code"> & {
+  code:
+    | Schemas["ErrorInfo"]["code"]
+    | "network_error"
+    | "invalid_response"
+    | "aborted";
+};
+
+export class ApiError extends Error {
+  status: number; // 0 when the request never got a response
+  info: ApiErrorInfo;
+
+  constructor(status: number, info: ApiErrorInfo) {
+    super(info.message);
+    this.name = "ApiError";
+    this.status = status;
+    this.info = info;
+  }
+
+  // Field errors for a form, keyed by the part of `field` after `prefix`:
+  // { field: "data.email" } with prefix "data" gives { email: message }
+  fieldErrors(prefix: string): Record<string, string> {
+    const field = this.info.field || "";
+    if (!field.startsWith(`${prefix}.`)) return {};
+    return { [field.slice(prefix.length + 1)]: this.info.message };
+  }
+}
+
+const STATUS_ERROR_CODES: Record<number, ApiErrorInfo["code"]> = {
+  400: "bad_request",
+  403: "forbidden",
+  404: "not_found",
+  409: "conflict",
+  422: "validation_error",
+};
+
+// Builds an ApiError from any failed response, JSON or not
+const toApiError = (response: Response, data: unknown, text: string) => {
+  const body = (data || {}) as { detail?: unknown; error?: ApiErrorInfo };
+  if (body.error?.code && body.error.message) {
+    return new ApiError(response.status, body.error);
+  }
+  const message =
+    typeof body.detail === "string"
+      ? body.detail
+      : text.trim().slice(0, 200) ||
+        `${response.status} ${response.statusText || "API Request Failed"}`;
+  return new ApiError(response.status, {
+    code:
+      STATUS_ERROR_CODES[response.status] ||
+      (response.status >= 500 ? "database_error" : "bad_request"),
+    message,
+  });
+};
+
+// --- Client-side Types ---
+
+export interface LookupQuery {
   column: string;
+  search?: string;
+  value?: string | number; // exact key match, used to check a value exists
+  labelColumn?: string;
+  limit?: number;
 }
 
-export interface ColumnDef {
-  name: string;
-  type: string;
-  isPrimary?: boolean;
-  isForeignKey?: boolean;
-  foreignKey?: ForeignKeyDef | null;
+export interface TableQuery {
+  page: number; // 1-based
+  pageSize: number;
+  sortBy?: string | null;
+  sortDir?: SortDirection;
+  filters?: Record<string, string>;
 }
 
-export interface CreateTableRequest {
-  table_name: string;
-  columns: ColumnDef[];
+// Request/response shapes of one operation, looked up by route and method
+type Method = "get" | "post" | "delete";
+type Route<M extends Method> = {
+  [P in keyof paths]: paths[P][M] extends object ? P : never;
+}[keyof paths];
+type Operation<M extends Method, P extends Route<M>> = NonNullable<paths[P][M]>;
+type JsonContent<T> = T extends { content: { "application/json": infer J } }
+  ? J
+  : never;
+
+type ResponseOf<M extends Method, P extends Route<M>> = Operation<
+  M,
+  P
+> extends { responses: { 200: infer R } }
+  ? JsonContent<R>
+  : never;
+
+interface RequestOptions<M extends Method, P extends Route<M>> {
+  path?: Operation<M, P> extends { parameters: { path: infer T } } ? T : never;
+  query?: Operation<M, P> extends { parameters: { query?: infer T } }
+    ? T
+    : never;
+  body?: Operation<M, P> extends { requestBody: { content: infer C } }
+    ? C extends { "application/json": infer B }
+      ? B
+      : never
+    : never;
 }
 
-export interface AddColumnRequest {
-  table_name: string;
-  column: ColumnDef;
+// --- Configuration ---
+// Uses the environment variable from docker-compose, defaults to localhost for dev
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:8000";
+
+// GETs are idempotent, so they retry transient failures with backoff:
+// 300ms, then 600ms
+const GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300;
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+export interface UseApiOptions {
+  // Called with the statements the server reports for each successful request
+  onStatements?: (statements: ExecutedStatement[]) => void;
 }
 
-export interface RowOperationRequest {
-  table_name: string;
-  data: Record<string, any>;
-  id?: number | string;
+// Per-call options accepted by every API method
+export interface CallOptions {
+  signal?: AbortSignal;
 }
 
-export interface JoinRequest {
-  leftTable: string;
-  rightTable: string;
-  leftKey: string;
-  rightKey: string;
+export interface ImportCallOptions extends CallOptions {
+  onProgress?: (progress: ImportProgress) => void;
 }
 
-export interface TableResponse {
-  id: string;
-  name: string;
-  columns: ColumnDef[];
-  rows: Record<string, any>[];
+interface CallConfig extends CallOptions {
+  key: string; // loading is tracked per key, e.g. "getTableData:users"
+  supersede?: boolean; // a newer call with the same key cancels this one
+  download?: boolean; // resolve to the raw body as a Blob, e.g. an export
+  // The response is an event stream (see readEvents); progress goes here
+  onProgress?: (progress: unknown) => void;
 }
 
-// --- Configuration ---
-// Uses the environment variable from docker-compose, defaults to localhost for dev
-const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:8000";
+export const isAbortError = (err: unknown) =>
+  err instanceof ApiError && err.info.code === "aborted";
+
+// The message of anything thrown: an ApiError, another Error or a bare value
+export const errorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : String(err);
+
+const abortError = () =>
+  new ApiError(0, { code: "aborted", message: "Request was cancelled." });
+
+const isRetryable = (err: unknown) =>
+  err instanceof ApiError &&
+  (err.info.code === "network_error" ||
+    RETRYABLE_STATUSES.includes(err.status));
+
+// Sort and filter parameters shared by table data and table exports
+const viewParams = (query: Partial<TableQuery>) => {
+  const activeFilters = Object.fromEntries(
+    Object.entries(query.filters || {}).filter(([, v]) => v.trim() !== "")
+  );
+  return {
+    sort_by: query.sortBy || undefined,
+    sort_dir: query.sortBy ? query.sortDir || "asc" : undefined,
+    filters:
+      Object.keys(activeFilters).length > 0
+        ? JSON.stringify(activeFilters)
+        : undefined,
+  };
+};
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(abortError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Reads an NDJSON event stream: { progress } lines as the server works,
+// then one with the { result } or the { error } that ended it. Resolves to
+// the result.
+const readEvents = async (
+  response: Response,
+  route: string,
+  method: Method,
+  signal: AbortSignal,
+  onProgress: (progress: unknown) => void
+): Promise<unknown> => {
+  const check = import.meta.env.DEV
+    ? (await import("../api/contract")).checkResponse
+    : null;
+  let result: unknown;
+  const handle = (line: string) => {
+    if (!line.trim()) return;
+    let event: {
+      progress?: unknown;
+      result?: unknown;
+      error?: ApiErrorInfo;
+      status?: number;
+    };
+    try {
+      event = JSON.parse(line);
+    } catch {
+      throw new ApiError(response.status, {
+        code: "invalid_response",
+        message: `Expected JSON lines from ${method.toUpperCase()} ${route}, got: ${line.slice(
+          0,
+          100
+        )}`,
+      });
+    }
+    check?.(route, method, response.status, event, "application/x-ndjson");
+    if (event.error) throw new ApiError(event.status || 400, event.error);
+    if (event.progress) onProgress(event.progress);
+    if (event.result) result = event.result;
+  };
+
+  const reader = response.body?.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  try {
+    while (reader) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split("\n");
+      buffered = lines.pop() || "";
+      lines.forEach(handle);
+    }
+  } catch (err) {
+    if (err instanceof ApiError) throw err;
+    if (signal.aborted) throw abortError();
+    throw new ApiError(0, {
+      code: "network_error",
+      message: `${method.toUpperCase()} ${route} stopped: ${errorMessage(err)}`,
+    });
+  }
+  handle(buffered + decoder.decode());
+
+  if (result === undefined) {
+    throw new ApiError(response.status, {
+      code: "invalid_response",
+      message: `${method.toUpperCase()} ${route} ended without a result.`,
+    });
+  }
+  return result;
+};
+
+// One HTTP round trip. `route` is the OpenAPI path template, e.g.
+// "/tables/{table_name}"; path and query parameters are filled in here.
+const send = async <M extends Method, P extends Route<M>, R>(
+  method: M,
+  route: P,
+  options: RequestOptions<M, P>,
+  signal: AbortSignal,
+  download = false,
+  onProgress?: (progress: unknown) => void
+): Promise<R> => {
+  const headers: HeadersInit = { "Content-Type": "application/json" };
+  const config: RequestInit = { method: method.toUpperCase(), headers, signal };
+
+  if (options.body) {
+    config.body = JSON.stringify(options.body);
+  }
+
+  const pathParams = (options.path || {}) as Record<string, string>;
+  let endpoint = route.replace(/\{(\w+)\}/g, (_, name) =>
+    encodeURIComponent(pathParams[name])
+  );
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(options.query || {})) {
+    if (value !== undefined && value !== null) {
+      params.set(key, String(value));
+    }
+  }
+  if (params.size > 0) endpoint += `?${params}`;
 
-export const useApi = () => {
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}${endpoint}`, config);
+  } catch (err) {
+    if (signal.aborted) throw abortError();
+    throw new ApiError(0, {
+      code: "network_error",
+      message: `Could not reach the API at ${API_BASE_URL}: ${errorMessage(
+        err
+      )}`,
+    });
+  }
 
-  // Generic Request Handler
+  if (download && response.ok) {
+    try {
+      return (await response.blob()) as R;
+    } catch (err) {
+      if (signal.aborted) throw abortError();
+      throw new ApiError(0, {
+        code: "network_error",
+        message: `Download from ${route} failed: ${errorMessage(err)}`,
+      });
+    }
+  }
+
+  if (onProgress && response.ok) {
+    return (await readEvents(response, route, method, signal, onProgress)) as R;
+  }
+
+  // Proxies and crashed workers answer with HTML or plain text
+  const text = await response.text();
+  let data: unknown = null;
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch {
+    if (response.ok) {
+      throw new ApiError(response.status, {
+        code: "invalid_response",
+        message: `Expected JSON from ${method.toUpperCase()} ${route}, got: ${text.slice(
+          0,
+          100
+        )}`,
+      });
+    }
+  }
+
+  if (!response.ok) {
+    throw toApiError(response, data, text);
+  }
+
+  // Fail loudly in development when the backend has drifted from the
+  // generated types; the check (and openapi.json) is left out of builds
+  if (import.meta.env.DEV) {
+    const { checkResponse } = await import("../api/contract");
+    checkResponse(route, method, response.status, data);
+  }
+
+  return data as R;
+};
+
+export const useApi = (options: UseApiOptions = {}) => {
+  // Call key -> number of requests in flight under it
+  const [pending, setPending] = useState<Record<string, number>>({});
+  // Call key -> message of its last failure, most recent last. A call only
+  // clears its own key's error, so one that succeeds doesn't hide another's.
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const error = Object.values(errors).pop() ?? null;
+  const loading = Object.keys(pending).length > 0;
+
+  // Kept in a ref so `request` stays stable when the caller passes a new closure
+  const onStatementsRef = useRef(options.onStatements);
+  useEffect(() => {
+    onStatementsRef.current = options.onStatements;
+  }, [options.onStatements]);
+
+  // Latest controller per superseding key
+  const inflight = useRef(new Map<string, AbortController>());
+
+  const setCallError = useCallback((key: string, message: string | null) => {
+    setErrors((prev) => {
+      if (!(key in prev) && message === null) return prev;
+      const next = { ...prev };
+      delete next[key];
+      if (message !== null) next[key] = message;
+      return next;
+    });
+  }, []);
+
+  const trackPending = useCallback((key: string, delta: 1 | -1) => {
+    setPending((prev) => {
+      const count = (prev[key] || 0) + delta;
+      const next = { ...prev };
+      if (count > 0) next[key] = count;
+      else delete next[key];
+      return next;
+    });
+  }, []);
+
+  // Whether a call is in flight; "getTableData" also matches
+  // "getTableData:users". With no names, whether anything is.
+  const isLoading = useCallback(
+    (...names: string[]) =>
+      names.length === 0
+        ? loading
+        : Object.keys(pending).some((key) =>
+            names.some((name) => key === name || key.startsWith(`${name}:`))
+          ),
+    [pending, loading]
+  );
+
+  // Generic Request Handler: cancellation, retries and loading state around
+  // send(). Resolves to the typed JSON body, or a Blob for downloads.
   const request = useCallback(
-    async (endpoint: string, method: string = "GET", body?: any) => {
-      setLoading(true);
-      setError(null);
+    async <M extends Method, P extends Route<M>, R = ResponseOf<M, P>>(
+      method: M,
+      route: P,
+      options: RequestOptions<M, P>,
+      call: CallConfig
+    ): Promise<R> => {
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      if (call.signal?.aborted) abort();
+      call.signal?.addEventListener("abort", abort);
+      if (call.supersede) {
+        inflight.current.get(call.key)?.abort();
+        inflight.current.set(call.key, controller);
+      }
+
+      trackPending(call.key, 1);
+      setCallError(call.key, null);
       try {
-        const headers: HeadersInit = { "Content-Type": "application/json" };
-        const config: RequestInit = { method, headers };
+        const retries = method === "get" ? GET_RETRIES : 0;
+        for (let attempt = 0; ; attempt++) {
+          try {
+            const data = await send<M, P, R>(
+              method,
+              route,
+              options,
+              controller.signal,
+              call.download,
+              call.onProgress
+            );
+            // A response that arrives after its call was superseded or
+            // cancelled is stale: drop it rather than hand it to the caller
+            if (controller.signal.aborted) throw abortError();
 
-        if (body) {
-          config.body = JSON.stringify(body);
+            const statements = (data as { statements?: ExecutedStatement[] })
+              ?.statements;
+            if (Array.isArray(statements) && statements.length > 0) {
+              onStatementsRef.current?.(statements);
+            }
+            return data;
+          } catch (err) {
+            if (controller.signal.aborted) throw abortError();
+            if (attempt >= retries || !isRetryable(err)) throw err;
+            await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt, controller.signal);
+          }
         }
-
-        const response = await fetch(`${API_BASE_URL}${endpoint}`, config);
-        const data = await response.json();
-
-        if (!response.ok) {
-          throw new Error(data.detail || "API Request Failed");
+      } catch (err) {
+        if (!isAbortError(err)) {
+          setCallError(call.key, errorMessage(err));
+          console.error("API Error:", err);
         }
-
-        return data;
-      } catch (err: any) {
-        setError(err.message);
-        console.error("API Error:", err);
         throw err;
       } finally {
-        setLoading(false);
+        call.signal?.removeEventListener("abort", abort);
+        if (inflight.current.get(call.key) === controller) {
+          inflight.current.delete(call.key);
+        }
+        trackPending(call.key, -1);
       }
     },
-    []
+    [trackPending, setCallError]
   );
 
   // --- API Methods ---
 
-  const getTables = useCallback(async (): Promise<string[]> => {
-    return await request("/tables");
-  }, [request]);
+  const getServerInfo = useCallback(
+    async (call: CallOptions = {}): Promise<ServerInfo> => {
+      return await request("get", "/", {}, { ...call, key: "getServerInfo" });
+    },
+    [request]
+  );
+
+  const getTables = useCallback(
+    async (call: CallOptions = {}): Promise<string[]> => {
+      return await request("get", "/tables", {}, { ...call, key: "getTables" });
+    },
+    [request]
+  );
 
   const getTableData = useCallback(
-    async (tableName: string): Promise<TableResponse> => {
-      return await request(`/tables/${tableName}`);
+    async (
+      tableName: string,
+      query?: TableQuery,
+      call: CallOptions = {}
+    ): Promise<TableResponse> => {
+      return await request(
+        "get",
+        "/tables/{table_name}",
+        {
+          path: { table_name: tableName },
+          query: query && {
+            page: query.page,
+            page_size: query.pageSize,
+            ...viewParams(query),
+          },
+        },
+        // A newer page of the same table replaces one still loading
+        { ...call, key: `getTableData:${tableName}`, supersede: true }
+      );
+    },
+    [request]
+  );
+
+  const getTableSchema = useCallback(
+    async (tableName: string, call: CallOptions = {}): Promise<TableSchema> => {
+      return await request(
+        "get",
+        "/tables/{table_name}/schema",
+        { path: { table_name: tableName } },
+        { ...call, key: `getTableSchema:${tableName}` }
+      );
+    },
+    [request]
+  );
+
+  const getTableSchemas = useCallback(
+    async (call: CallOptions = {}): Promise<TableSchema[]> => {
+      return await request(
+        "get",
+        "/schemas",
+        {},
+        { ...call, key: "getTableSchemas" }
+      );
+    },
+    [request]
+  );
+
+  const getIndexes = useCallback(
+    async (tableName: string, call: CallOptions = {}): Promise<IndexInfo[]> => {
+      return await request(
+        "get",
+        "/tables/{table_name}/indexes",
+        { path: { table_name: tableName } },
+        { ...call, key: `getIndexes:${tableName}` }
+      );
+    },
+    [request]
+  );
+
+  const createIndex = useCallback(
+    async (
+      payload: CreateIndexRequest,
+      call: CallOptions = {}
+    ): Promise<MutationResponse> => {
+      return await request(
+        "post",
+        "/indexes/create",
+        { body: payload },
+        { ...call, key: "createIndex" }
+      );
+    },
+    [request]
+  );
+
+  const dropIndex = useCallback(
+    async (
+      tableName: string,
+      indexName: string,
+      call: CallOptions = {}
+    ): Promise<MutationResponse> => {
+      return await request(
+        "delete",
+        "/tables/{table_name}/indexes/{index_name}",
+        { path: { table_name: tableName, index_name: indexName } },
+        { ...call, key: "dropIndex" }
+      );
+    },
+    [request]
+  );
+
+  // Database-defined types (enums and domains) offered as column types
+  const getTypes = useCallback(
+    async (call: CallOptions = {}): Promise<TypeCatalog> => {
+      return await request("get", "/types", {}, { ...call, key: "getTypes" });
+    },
+    [request]
+  );
+
+  const createType = useCallback(
+    async (
+      payload: CreateTypeRequest,
+      call: CallOptions = {}
+    ): Promise<MutationResponse> => {
+      return await request(
+        "post",
+        "/types/create",
+        { body: payload },
+        { ...call, key: "createType" }
+      );
+    },
+    [request]
+  );
+
+  const alterType = useCallback(
+    async (
+      payload: AlterTypeRequest,
+      call: CallOptions = {}
+    ): Promise<MutationResponse> => {
+      return await request(
+        "post",
+        "/types/alter",
+        { body: payload },
+        { ...call, key: "alterType" }
+      );
+    },
+    [request]
+  );
+
+  const dropType = useCallback(
+    async (
+      typeName: string,
+      call: CallOptions = {}
+    ): Promise<MutationResponse> => {
+      return await request(
+        "delete",
+        "/types/{type_name}",
+        { path: { type_name: typeName } },
+        { ...call, key: "dropType" }
+      );
+    },
+    [request]
+  );
+
+  const lookupRows = useCallback(
+    async (
+      tableName: string,
+      query: LookupQuery,
+      call: CallOptions = {}
+    ): Promise<LookupResponse> => {
+      return await request(
+        "get",
+        "/tables/{table_name}/lookup",
+        {
+          path: { table_name: tableName },
+          query: {
+            column: query.column,
+            search: query.search || undefined,
+            value: query.value !== undefined ? String(query.value) : undefined,
+            label_column: query.labelColumn || undefined,
+            limit: query.limit || undefined,
+          },
+        },
+        // Each keystroke in a picker supersedes the previous search
+        {
+          ...call,
+          key: `lookupRows:${tableName}.${query.column}`,
+          supersede: query.value === undefined,
+        }
+      );
     },
     [request]
   );
 
   const createTable = useCallback(
-    async (payload: CreateTableRequest) => {
-      return await request("/create-table", "POST", payload);
+    async (
+      payload: CreateTableRequest,
+      call: CallOptions = {}
+    ): Promise<MutationResponse> => {
+      return await request(
+        "post",
+        "/create-table",
+        { body: payload },
+        { ...call, key: "createTable" }
+      );
     },
     [request]
   );
 
   const dropTable = useCallback(
-    async (tableName: string) => {
-      return await request(`/tables/${tableName}`, "DELETE");
+    async (
+      tableName: string,
+      call: CallOptions = {}
+    ): Promise<MutationResponse> => {
+      return await request(
+        "delete",
+        "/tables/{table_name}",
+        { path: { table_name: tableName } },
+        { ...call, key: "dropTable" }
+      );
     },
     [request]
   );
 
   const addColumn = useCallback(
-    async (payload: AddColumnRequest) => {
-      return await request("/add-column", "POST", payload);
+    async (
+      payload: AddColumnRequest,
+      call: CallOptions = {}
+    ): Promise<MutationResponse> => {
+      return await request(
+        "post",
+        "/add-column",
+        { body: payload },
+        { ...call, key: "addColumn" }
+      );
+    },
+    [request]
+  );
+
+  // With `preview`, nothing runs: the response has the DDL and the rows it
+  // would fail on. Previews of the alteration being edited supersede each other.
+  const alterTable = useCallback(
+    async (
+      payload: AlterTableRequest,
+      call: CallOptions = {}
+    ): Promise<AlterTableResponse> => {
+      return await request(
+        "post",
+        "/alter-table",
+        { body: payload },
+        payload.preview
+          ? { ...call, key: "previewAlterTable", supersede: true }
+          : { ...call, key: "alterTable" }
+      );
     },
     [request]
   );
 
   const insertRow = useCallback(
-    async (payload: RowOperationRequest) => {
-      return await request("/rows/insert", "POST", payload);
+    async (
+      payload: RowOperationRequest,
+      call: CallOptions = {}
+    ): Promise<MutationResponse> => {
+      return await request(
+        "post",
+        "/rows/insert",
+        { body: payload },
+        { ...call, key: "insertRow" }
+      );
     },
     [request]
   );
 
   const updateRow = useCallback(
-    async (payload: RowOperationRequest) => {
-      return await request("/rows/update", "POST", payload);
+    async (
+      payload: RowOperationRequest,
+      call: CallOptions = {}
+    ): Promise<MutationResponse> => {
+      return await request(
+        "post",
+        "/rows/update",
+        { body: payload },
+        { ...call, key: "updateRow" }
+      );
+    },
+    [request]
+  );
+
+  const deleteRows = useCallback(
+    async (
+      payload: DeleteRowsRequest,
+      call: CallOptions = {}
+    ): Promise<DeleteRowsResponse> => {
+      return await request(
+        "post",
+        "/rows/delete",
+        { body: payload },
+        { ...call, key: "deleteRows" }
+      );
+    },
+    [request]
+  );
+
+  // All operations apply in one transaction, or none do; a failure's
+  // ApiError names the operation index in `info.operation`
+  const batchMutations = useCallback(
+    async (
+      payload: BatchRequest,
+      call: CallOptions = {}
+    ): Promise<BatchResponse> => {
+      return await request(
+        "post",
+        "/rows/batch",
+        { body: payload },
+        { ...call, key: "batchMutations" }
+      );
+    },
+    [request]
+  );
+
+  // Many rows in one transaction, reporting progress as they go in; when any
+  // fail, none are inserted and the result lists them in `errors`
+  const importRows = useCallback(
+    async (
+      payload: ImportRequest,
+      { onProgress, ...call }: ImportCallOptions = {}
+    ): Promise<ImportResponse> => {
+      return await request<"post", "/rows/import", ImportResponse>(
+        "post",
+        "/rows/import",
+        { body: payload },
+        {
+          ...call,
+          key: "importRows",
+          onProgress: (progress) => onProgress?.(progress as ImportProgress),
+        }
+      );
+    },
+    [request]
+  );
+
+  // Every table, referenced tables first, as a document and a SQL script
+  const exportSchema = useCallback(
+    async (call: CallOptions = {}): Promise<SchemaExport> => {
+      return await request(
+        "get",
+        "/schema/export",
+        {},
+        { ...call, key: "exportSchema" }
+      );
+    },
+    [request]
+  );
+
+  // Tables that already exist come back in `conflicts`; with onConflict
+  // "abort" nothing is created then
+  const importSchema = useCallback(
+    async (
+      payload: SchemaImportRequest,
+      call: CallOptions = {}
+    ): Promise<SchemaImportResponse> => {
+      return await request(
+        "post",
+        "/schema/import",
+        { body: payload },
+        { ...call, key: "importSchema" }
+      );
+    },
+    [request]
+  );
+
+  // Schema changes made through the API, oldest first
+  const getMigrations = useCallback(
+    async (call: CallOptions = {}): Promise<MigrationHistory> => {
+      return await request(
+        "get",
+        "/migrations",
+        {},
+        { ...call, key: "getMigrations" }
+      );
+    },
+    [request]
+  );
+
+  // Undoes every migration after `version`, newest first; all or nothing
+  const rollbackMigrations = useCallback(
+    async (
+      version: number,
+      call: CallOptions = {}
+    ): Promise<RollbackResponse> => {
+      return await request(
+        "post",
+        "/migrations/rollback",
+        { body: { version } },
+        { ...call, key: "rollbackMigrations" }
+      );
+    },
+    [request]
+  );
+
+  // A zip of numbered .up.sql and .down.sql files
+  const exportMigrations = useCallback(
+    async (call: CallOptions = {}): Promise<Blob> => {
+      return await request<"get", "/migrations/export", Blob>(
+        "get",
+        "/migrations/export",
+        {},
+        { ...call, key: "exportMigrations", download: true }
+      );
+    },
+    [request]
+  );
+
+  const getRowReferences = useCallback(
+    async (
+      payload: DeleteRowsRequest,
+      call: CallOptions = {}
+    ): Promise<RowReference[]> => {
+      return await request(
+        "post",
+        "/rows/references",
+        { body: payload },
+        { ...call, key: "getRowReferences" }
+      );
     },
     [request]
   );
 
   const runJoin = useCallback(
-    async (payload: JoinRequest): Promise<Record<string, any>[]> => {
-      return await request("/query/join", "POST", payload);
+    async (
+      payload: JoinRequest,
+      call: CallOptions = {}
+    ): Promise<Record<string, unknown>[]> => {
+      return await request(
+        "post",
+        "/query/join",
+        { body: payload },
+        { ...call, key: "runJoin" }
+      );
+    },
+    [request]
+  );
+
+  const executeSql = useCallback(
+    async (
+      payload: SqlExecuteRequest,
+      call: CallOptions = {}
+    ): Promise<SqlExecuteResponse> => {
+      return await request(
+        "post",
+        "/sql/execute",
+        { body: payload },
+        { ...call, key: "executeSql" }
+      );
+    },
+    [request]
+  );
+
+  const runQuery = useCallback(
+    async (
+      payload: QueryRequest,
+      call: CallOptions = {}
+    ): Promise<QueryResponse> => {
+      return await request(
+        "post",
+        "/query/run",
+        { body: payload },
+        { ...call, key: "runQuery", supersede: true }
+      );
+    },
+    [request]
+  );
+
+  // Every row matching the table's sort and filters, not just one page,
+  // streamed by the server as a file
+  const exportTable = useCallback(
+    async (
+      tableName: string,
+      format: ExportFormat,
+      query: Partial<TableQuery> = {},
+      call: CallOptions = {}
+    ): Promise<Blob> => {
+      return await request<"get", "/tables/{table_name}/export", Blob>(
+        "get",
+        "/tables/{table_name}/export",
+        {
+          path: { table_name: tableName },
+          query: { format, ...viewParams(query) },
+        },
+        { ...call, key: `exportTable:${tableName}`, download: true }
+      );
+    },
+    [request]
+  );
+
+  // The full result of a query; its limit and offset are ignored
+  const exportQuery = useCallback(
+    async (
+      payload: QueryRequest,
+      format: ExportFormat,
+      call: CallOptions = {}
+    ): Promise<Blob> => {
+      return await request<"post", "/query/export", Blob>(
+        "post",
+        "/query/export",
+        { query: { format }, body: payload },
+        { ...call, key: "exportQuery", download: true }
+      );
     },
     [request]
   );
 
   return {
     loading,
+    isLoading,
     error,
+    getServerInfo,
     getTables,
     getTableData,
+    getTableSchema,
+    getTableSchemas,
+    getIndexes,
+    createIndex,
+    dropIndex,
+    getTypes,
+    createType,
+    alterType,
+    dropType,
+    lookupRows,
     createTable,
     dropTable,
     addColumn,
+    alterTable,
     insertRow,
     updateRow,
+    deleteRows,
+    batchMutations,
+    importRows,
+    exportSchema,
+    importSchema,
+    getMigrations,
+    rollbackMigrations,
+    exportMigrations,
+    getRowReferences,
     runJoin,
+    runQuery,
+    executeSql,
+    exportTable,
+    exportQuery,
   };
 };
@@ -0,0 +1,270 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { isAbortError } from "./useApi";
+import type { TableQuery, TableResponse, TableSchema, useApi } from "./useApi";
+
+// --- Types ---
+
+type Api = ReturnType<typeof useApi>;
+
+export type TablePage = Pick<
+  TableResponse,
+  "rows" | "total" | "page" | "page_size"
+>;
+
+interface CachedPage extends TablePage {
+  view: string; // viewKey of the query it was fetched for
+  fetchedAt: number;
+  stale: boolean; // invalidated: still shown, but refetched when next viewed
+}
+
+// Normalized: each table's schema is stored once, its pages separately
+interface CacheState {
+  tableNames: string[];
+  schemas: Record<string, TableSchema>;
+  pages: Record<string, Record<string, CachedPage>>; // table -> query key -> page
+}
+
+// What a change made out of date
+export interface Invalidation {
+  tables?: boolean; // the table list itself, after a create or drop
+  schemas?: string[]; // columns or constraints changed (implies rows)
+  rows?: string[];
+}
+
+export interface UseTableCacheOptions {
+  // The table and query on screen; only its rows are fetched eagerly
+  activeTable: string | null;
+  activeQuery: TableQuery;
+  onError?: (message: string) => void;
+}
+
+// --- Configuration ---
+
+// A cached page older than this is refetched in the background when shown
+const MAX_PAGE_AGE_MS = 30_000;
+// Debounce for a query with nothing cached yet, so typing in filters doesn't spam
+const FETCH_DELAY_MS = 300;
+// Pages kept per table; the least recently fetched go first
+const MAX_PAGES_PER_TABLE = 20;
+
+const EMPTY_CACHE: CacheState = { tableNames: [], schemas: {}, pages: {} };
+
+// Stable key for a query's sort and filters, whatever the page: filter
+// order and blank filters don't matter
+const viewKey = (query: TableQuery) =>
+  JSON.stringify([
+    query.sortBy || null,
+    query.sortBy ? query.sortDir || "asc" : null,
+    Object.entries(query.filters || {})
+      .filter(([, v]) => v.trim() !== "")
+      .sort(([a], [b]) => a.localeCompare(b)),
+  ]);
+
+// Stable key for a query, page included
+const queryKey = (query: TableQuery) =>
+  JSON.stringify([query.page, query.pageSize, viewKey(query)]);
+
+const markStale = (
+  pages: CacheState["pages"],
+  tableNames: string[]
+): CacheState["pages"] => {
+  const next = { ...pages };
+  for (const name of tableNames) {
+    if (!next[name]) continue;
+    next[name] = Object.fromEntries(
+      Object.entries(next[name]).map(([key, page]) => [
+        key,
+        { ...page, stale: true },
+      ])
+    );
+  }
+  return next;
+};
+
+const keepNewest = (pages: Record<string, CachedPage>) => {
+  const entries = Object.entries(pages);
+  if (entries.length <= MAX_PAGES_PER_TABLE) return pages;
+  entries.sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt);
+  return Object.fromEntries(entries.slice(0, MAX_PAGES_PER_TABLE));
+};
+
+export const useTableCache = (api: Api, options: UseTableCacheOptions) => {
+  const { getTables, getTableSchema, getTableSchemas, getTableData } = api;
+  const { activeTable, activeQuery } = options;
+
+  const [cache, setCache] = useState<CacheState>(EMPTY_CACHE);
+  // Bumped when the window regains focus, to revalidate what's on screen
+  const [focusCount, setFocusCount] = useState(0);
+
+  // Async work reads the latest cache without re-creating its callbacks
+  const cacheRef = useRef(cache);
+  useEffect(() => {
+    cacheRef.current = cache;
+  }, [cache]);
+
+  const onErrorRef = useRef(options.onError);
+  useEffect(() => {
+    onErrorRef.current = options.onError;
+  }, [options.onError]);
+
+  // The fetcher below re-runs when the query's key changes, not its identity
+  const activeQueryRef = useRef(activeQuery);
+  useEffect(() => {
+    activeQueryRef.current = activeQuery;
+  }, [activeQuery]);
+
+  // Marks what changed as stale, then refetches the table list and schemas
+  // it covers. Everything (for "all" or an empty cache) comes in one bulk
+  // request, and so do several named or missing schemas; a single one is
+  // fetched on its own. Rows are only refetched for the table on screen (by
+  // the effect below); other tables catch up when they are next opened.
+  // Resolves to the current table names.
+  const invalidate = useCallback(
+    async (target: Invalidation | "all"): Promise<string[]> => {
+      const all = target === "all";
+      const current = cacheRef.current;
+      const staleRows = all
+        ? Object.keys(current.pages)
+        : [...(target.rows || []), ...(target.schemas || [])];
+      if (staleRows.length > 0) {
+        setCache((prev) => ({
+          ...prev,
+          pages: markStale(prev.pages, staleRows),
+        }));
+      }
+
+      let tableNames: string[];
+      let fetched: TableSchema[];
+      if (all || current.tableNames.length === 0) {
+        fetched = await getTableSchemas();
+        tableNames = fetched.map((schema) => schema.id);
+      } else {
+        tableNames = target.tables ? await getTables() : current.tableNames;
+        const refetch = tableNames.filter(
+          (name) => !current.schemas[name] || target.schemas?.includes(name)
+        );
+        fetched =
+          refetch.length > 1
+            ? (await getTableSchemas()).filter((s) => refetch.includes(s.id))
+            : await Promise.all(refetch.map((name) => getTableSchema(name)));
+      }
+
+      setCache((prev) => {
+        const schemas: Record<string, TableSchema> = {};
+        const pages: CacheState["pages"] = {};
+        for (const name of tableNames) {
+          if (prev.schemas[name]) schemas[name] = prev.schemas[name];
+          if (prev.pages[name]) pages[name] = prev.pages[name];
+        }
+        for (const schema of fetched) schemas[schema.id] = schema;
+        return { tableNames, schemas, pages };
+      });
+      return tableNames;
+    },
+    [getTables, getTableSchema, getTableSchemas]
+  );
+
+  const fetchPage = useCallback(
+    async (table: string, query: TableQuery, signal: AbortSignal) => {
+      try {
+        const data = await getTableData(table, query, { signal });
+        const { rows, total, page, page_size, ...schema } = data;
+        setCache((prev) => {
+          // Dropped while the page was loading
+          if (!prev.tableNames.includes(table)) return prev;
+          return {
+            ...prev,
+            schemas: { ...prev.schemas, [table]: schema },
+            pages: {
+              ...prev.pages,
+              [table]: keepNewest({
+                ...prev.pages[table],
+                [queryKey(query)]: {
+                  view: viewKey(query),
+                  rows,
+                  total,
+                  page,
+                  page_size,
+                  fetchedAt: Date.now(),
+                  stale: false,
+                },
+              }),
+            },
+          };
+        });
+      } catch (err) {
+        if (isAbortError(err)) return;
+        onErrorRef.current?.(
+          `Failed to load ${table}: ${(err as Error).message}`
+        );
+      }
+    },
+    [getTableData]
+  );
+
+  useEffect(() => {
+    const onFocus = () => setFocusCount((n) => n + 1);
+    window.addEventListener("focus", onFocus);
+    return () => window.removeEventListener("focus", onFocus);
+  }, []);
+
+  // Active Page Fetcher: serves the cached page right away and revalidates
+  // it in the background when stale. Switching tables or changing the query
+  // cancels the fetch in flight, so an older page never lands on a newer one.
+  const activeKey = queryKey(activeQuery);
+  const activeEntry = activeTable
+    ? cache.pages[activeTable]?.[activeKey]
+    : undefined;
+  const activeKnown = !!activeTable && cache.tableNames.includes(activeTable);
+
+  useEffect(() => {
+    if (!activeTable || !activeKnown) return;
+    if (
+      activeEntry &&
+      !activeEntry.stale &&
+      Date.now() - activeEntry.fetchedAt < MAX_PAGE_AGE_MS
+    ) {
+      return;
+    }
+
+    const query = activeQueryRef.current;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(
+      () => fetchPage(activeTable, query, controller.signal),
+      activeEntry ? 0 : FETCH_DELAY_MS
+    );
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [activeTable, activeKey, activeKnown, activeEntry, focusCount, fetchPage]);
+
+  // The page for `query`; while that loads, the most recent page with the
+  // same sort and filters, so the grid doesn't blank out between pages.
+  // A new sort or filter has no stand-in: another query's rows and total
+  // would be wrong for it.
+  const getPage = useCallback(
+    (table: string, query: TableQuery): TablePage | undefined => {
+      const pages = cache.pages[table];
+      if (!pages) return undefined;
+      const view = viewKey(query);
+      return (
+        pages[queryKey(query)] ||
+        Object.values(pages).reduce<CachedPage | undefined>(
+          (latest, page) =>
+            page.view === view && (!latest || page.fetchedAt > latest.fetchedAt)
+              ? page
+              : latest,
+          undefined
+        )
+      );
+    },
+    [cache.pages]
+  );
+
+  const tables = cache.tableNames
+    .map((name) => cache.schemas[name])
+    .filter((schema): schema is TableSchema => !!schema);
+
+  return { tables, getPage, invalidate };
+};